@@ -1,17 +1,69 @@
-const CACHE_NAME = 'quote-calc-v1';
+// The build swaps the manifest placeholder below for the app shell: every file
+// Vite emitted plus the public folder (see precacheManifest in vite.config.ts).
+// In development there is no manifest and nothing is precached.
+const PRECACHE = self.__PRECACHE_MANIFEST || { version: 'dev', urls: [] };
+const CACHE_PREFIX = 'quote-calc-';
+const SHELL_CACHE = `${CACHE_PREFIX}${PRECACHE.version}`;
+const FONT_CACHE = `${CACHE_PREFIX}fonts`;
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
 
+// No skipWaiting here: a new version waits until the app asks for it, so an
+// open quote is never reloaded out from under the user.
 self.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => {
-      return cache.addAll(['/']);
-    })
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(PRECACHE.urls))
   );
 });
 
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith(CACHE_PREFIX) && key !== SHELL_CACHE && key !== FONT_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Fonts: serve the cached copy at once and refresh it in the background
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(FONT_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
 self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+    return;
+  }
+  if (url.origin !== self.location.origin) return;
+
+  // Every page is the single-page app, so navigations get the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.match('/index.html').then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
   event.respondWith(
-    fetch(event.request).catch(() => {
-      return caches.match(event.request);
-    })
+    caches.match(request).then((cached) => cached || fetch(request))
   );
 });
@@ -1,580 +1,2160 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import * as Ariakit from "@ariakit/react";
-import { DEFAULT_SETTINGS } from './types';
-import type { AppSettings, QuoteItem, SavedQuote, PersistentItem } from './types';
-import { calculateLaborCost, calculateLaborPrice, calculateMaterials, generateId } from './utils';
-import { Button, Input, Card, Toast } from './components/Shared';
+import { EMPTY_CUSTOMER, NO_JOB_COSTS, NO_OVERRIDES, QUOTE_STATUSES, SCHEMA_VERSION, STATUS_LABELS } from './types';
+import type { AppSettings, QuoteItem, QuoteOption, SavedQuote, PersistentItem, PricingProfile, MarkupPolicy, LaborRates, LaborLine, LaborRole, Customer, CustomerDetails, BusinessProfile, TaxSettings, TaxRate, Discount, QuoteOverrides, MoneySettings, RoundingSettings, PriceRoundingRule, JobCosts } from './types';
+import {
+  calculateQuoteTotals,
+  getBillRate,
+  formatDiscount,
+  describeMarkupSource,
+  hasOverrides,
+  snapshotQuoteItems,
+  todayIso,
+  addDaysIso,
+  isFollowUpDue,
+  isPastExpiry,
+  matchesCustomer,
+  matchesItem,
+  listCategories,
+  groupItemsByCategory,
+  formatQuantity,
+  calculateLine,
+  withMarkup,
+  isAssembly,
+  buildRepriceLines,
+  resolvePricing,
+  generateId,
+} from './utils';
+import type { QuoteInput } from './utils';
+import { DEFAULT_HISTORY_QUERY, LEGACY_ROUNDING, buildHistoryEntries, pricedOptionOf, queryHistory } from './history';
+import type { HistoryQuery, HistorySort } from './history';
+import { parseSettings } from './schema';
+import { applySettingsChange, diffSettings, isEmptyChange } from './storage';
+import type { InitialState, SettingsChange, SettingsReport, StorageBackend } from './storage';
+import { createUndoHistory, rebaseHistory, recordEdit, redoEdit, undoEdit } from './undo';
+import type { EditSnapshot } from './undo';
+import { PRICE_ROUNDING_LABELS, createMoneyFormatter, isSupportedMoneyFormat } from './money';
+import { MoneyContext } from './moneyContext';
+import { Button, Input, TextArea, Card, Toast, ErrorReport } from './components/Shared';
+import { RepriceReview } from './components/RepriceReview';
+import { QuoteDocumentViewer } from './components/QuoteDocument';
+import { SavedQuoteViewer } from './components/SavedQuoteViewer';
+import { DiscountInput } from './components/DiscountInput';
+import { TargetSolver } from './components/TargetSolver';
+import { QuoteLifecycle, StatusBadge } from './components/QuoteLifecycle';
+import { CustomerDirectory } from './components/CustomerDirectory';
+import { LibraryImport } from './components/LibraryImport';
+import { BackupRestore } from './components/BackupRestore';
+import { LibraryItemCard } from './components/LibraryItemCard';
+import { PricingProfileCard } from './components/PricingProfileCard';
+import { MarkupRulesCard } from './components/MarkupRulesCard';
+import { CostChangeReport } from './components/CostChangeReport';
+import { JobCosting } from './components/JobCosting';
+import { EstimateAccuracy } from './components/EstimateAccuracy';
+import { AppStatus } from './components/AppStatus';
+import { recordCostChange } from './costs';
+import { createOption, priceOptions, withOption } from './options';
+import { createShareLink, isShareLink, readShareLink } from './share';
+import type { SharedQuote } from './share';
+import { applyLibraryImport, libraryToCsv, parseCsv, summarizeImport } from './csv';
+import type { ImportRow } from './csv';
+import { backupFileName, summarizeMerge } from './backup';
+import type { MergeRow } from './backup';
 import './App.css';
 
-function App() {
-  const [settings, setSettings] = useState<AppSettings>(() => {
-    try {
-      const saved = localStorage.getItem('quote_builder_settings');
-      return saved ? JSON.parse(saved) : DEFAULT_SETTINGS;
-    } catch {
-      return DEFAULT_SETTINGS;
-    }
-  });
-
-  const [laborHours, setLaborHours] = useState<number>(() => {
-    const saved = localStorage.getItem('quote_builder_hours');
-    return saved ? Number(saved) : 0;
-  });
-  const [quoteItems, setQuoteItems] = useState<QuoteItem[]>(() => {
-    const saved = localStorage.getItem('quote_builder_items');
-    return saved ? JSON.parse(saved) : [];
-  });
-  const [quoteName, setQuoteName] = useState<string>(() => {
-    return localStorage.getItem('quote_builder_name') || '';
-  });
+const HISTORY_PAGE_SIZE = 20;
+
+const HISTORY_SORTS: { id: HistorySort; label: string }[] = [
+  { id: 'date', label: 'Date' },
+  { id: 'total', label: 'Total' },
+  { id: 'margin', label: 'Margin' },
+];
+
+const isTextField = (target: EventTarget | null) => {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+};
+
+const fingerprintWorkingQuote = (state: {
+  quoteItems: QuoteItem[];
+  laborLines: LaborLine[];
+  quoteDiscount: Discount | null;
+  overrides: QuoteOverrides;
+  customer: CustomerDetails;
+  pricingProfileId: string | null;
+  options: QuoteOption[];
+}) => JSON.stringify(state);
+
+const downloadFile = (contents: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Lines loaded from a saved quote go back to library prices, unless the item has since been deleted
+const priceFromLibrary = (quoteItems: QuoteItem[], persistentItems: PersistentItem[]) => quoteItems.map(qItem => {
+  const inLibrary = persistentItems.some(i => i.id === qItem.itemId);
+  return qItem.snapshot && inLibrary ? { ...qItem, snapshot: undefined } : qItem;
+});
+
+function App({ storage, initial }: { storage: StorageBackend; initial: InitialState }) {
+  const [settings, setSettings] = useState<AppSettings>(initial.settings);
+  const [settingsReport, setSettingsReport] = useState<SettingsReport | null>(initial.report);
+  // Settings as last written to storage; each save writes only what differs from it
+  const persistedSettings = useRef(initial.settings);
+
+  const { workingQuote } = initial;
+  const [laborLines, setLaborLines] = useState<LaborLine[]>(workingQuote.laborLines);
+  const [quoteItems, setQuoteItems] = useState<QuoteItem[]>(workingQuote.quoteItems);
+  const [quoteName, setQuoteName] = useState<string>(workingQuote.quoteName);
+  // Rates a quote loaded from history was saved with; null means use the current settings
+  const [lockedLaborRates, setLockedLaborRates] = useState<LaborRates | null>(workingQuote.lockedLaborRates);
+  const [lockedTax, setLockedTax] = useState<TaxSettings | null>(workingQuote.lockedTax);
+  const [lockedRounding, setLockedRounding] = useState<RoundingSettings | null>(workingQuote.lockedRounding);
+  const [lockedJobCosts, setLockedJobCosts] = useState<JobCosts | null>(workingQuote.lockedJobCosts);
+  const [quoteDiscount, setQuoteDiscount] = useState<Discount | null>(workingQuote.quoteDiscount);
+  const [overrides, setOverrides] = useState<QuoteOverrides>(workingQuote.overrides);
+  const [discountRowIdx, setDiscountRowIdx] = useState<number | null>(null);
+  // Quote lines whose assembly parts are shown
+  const [expandedLines, setExpandedLines] = useState<number[]>([]);
+  const [showReprice, setShowReprice] = useState(false);
+  const [customer, setCustomer] = useState<CustomerDetails>(workingQuote.customer);
+  // Customer record the working quote is attached to
+  const [customerId, setCustomerId] = useState<string | null>(workingQuote.customerId);
+  const [pricingProfileId, setPricingProfileId] = useState<string | null>(workingQuote.pricingProfileId);
+  const [options, setOptions] = useState<QuoteOption[]>(workingQuote.options);
+  // Option whose lines the Labor and Materials cards edit; null edits the shared lines
+  const [editingOptionId, setEditingOptionId] = useState<string | null>(null);
+  const [customerSearch, setCustomerSearch] = useState('');
+  const [activeTab, setActiveTab] = useState<string | null | undefined>('quote');
+  const [showDocument, setShowDocument] = useState(false);
+  const [libraryImport, setLibraryImport] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  const [backupRestore, setBackupRestore] = useState<{ fileName: string; settings: AppSettings; migratedFrom: number } | null>(null);
+  const [historyQuery, setHistoryQuery] = useState<HistoryQuery>(DEFAULT_HISTORY_QUERY);
+  const [historyPage, setHistoryPage] = useState(0);
+  const [viewingQuoteId, setViewingQuoteId] = useState<string | null>(null);
+  // Quote opened from a share link; it is not in history unless imported
+  const [sharedQuote, setSharedQuote] = useState<SharedQuote | null>(null);
+  // Fingerprint of the working quote when it was last saved or loaded
+  const [cleanFingerprint, setCleanFingerprint] = useState<string | null>(null);
+  const [expandedQuoteId, setExpandedQuoteId] = useState<string | null>(null);
+  const [costingQuoteId, setCostingQuoteId] = useState<string | null>(null);
   const [searchValue, setSearchValue] = useState('');
-  const [toasts, setToasts] = useState<{ id: string; message: string; type: 'success' | 'error' }[]>([]);
+  // Library category filter: null shows everything, '' is the uncategorized group
+  const [libraryCategory, setLibraryCategory] = useState<string | null>(null);
+  // Undoable toasts keep the state from before the edit they report, so their Undo
+  // button only shows while that edit is still the latest undo step
+  const [toasts, setToasts] = useState<{ id: string; message: string; type: 'success' | 'error'; undoFrom?: EditSnapshot }[]>([]);
+
+  const editSnapshot: EditSnapshot = useMemo(() => ({
+    quoteName,
+    quoteItems,
+    laborLines,
+    lockedLaborRates,
+    lockedTax,
+    lockedRounding,
+    lockedJobCosts,
+    quoteDiscount,
+    overrides,
+    customer,
+    customerId,
+    pricingProfileId,
+    options,
+    persistentItems: settings.persistentItems,
+    laborRoles: settings.laborRoles,
+    savedQuotes: settings.savedQuotes,
+  }), [quoteName, quoteItems, laborLines, lockedLaborRates, lockedTax, lockedRounding, lockedJobCosts, quoteDiscount, overrides, customer, customerId, pricingProfileId, options, settings.persistentItems, settings.laborRoles, settings.savedQuotes]);
+  const [undoHistory, setUndoHistory] = useState(() => createUndoHistory(editSnapshot));
+  // Changes another tab saved that are not in the undo history yet; they are not edits made here
+  const remoteChanges = useRef<SettingsChange[]>([]);
+
+  useEffect(() => {
+    const changes = remoteChanges.current;
+    remoteChanges.current = [];
+    setUndoHistory(history => {
+      if (changes.length > 0) return rebaseHistory(history, editSnapshot, changes);
+      // Any other change is an edit. Undo and redo already moved history.present to
+      // what they restore, so recordEdit leaves the history as it is for them
+      return recordEdit(history, editSnapshot);
+    });
+  }, [editSnapshot]);
 
   const filteredItems = useMemo(() => {
-    return settings.persistentItems.filter(item => 
-      item.name.toLowerCase().includes(searchValue.toLowerCase())
-    );
+    return settings.persistentItems.filter(item => matchesItem(item, searchValue));
   }, [settings.persistentItems, searchValue]);
 
-  const addToast = (message: string, type: 'success' | 'error' = 'success') => {
+  const libraryCategories = useMemo(() => listCategories(settings.persistentItems), [settings.persistentItems]);
+  const allLibraryGroups = useMemo(() => groupItemsByCategory(settings.persistentItems), [settings.persistentItems]);
+  // Falls back to everything once the selected category no longer has items
+  const activeLibraryCategory = allLibraryGroups.some(group => group.category === libraryCategory) ? libraryCategory : null;
+  const libraryGroups = activeLibraryCategory === null
+    ? allLibraryGroups
+    : allLibraryGroups.filter(group => group.category === activeLibraryCategory);
+
+  const filteredCustomers = useMemo(() => {
+    return settings.customers.filter(c => matchesCustomer(c, customerSearch));
+  }, [settings.customers, customerSearch]);
+  const linkedCustomer = settings.customers.find(c => c.id === customerId) ?? null;
+
+  const dismissToast = (id: string) => {
+    setToasts(prev => prev.filter(t => t.id !== id));
+  };
+
+  const addToast = (message: string, type: 'success' | 'error' = 'success', undoable = false) => {
     const id = generateId();
-    setToasts(prev => [...prev, { id, message, type }]);
-    setTimeout(() => {
-      setToasts(prev => prev.filter(t => t.id !== id));
-    }, 3000);
+    setToasts(prev => [...prev, { id, message, type, ...(undoable && { undoFrom: undoHistory.present }) }]);
+    // Leave time to reach the Undo button
+    setTimeout(() => dismissToast(id), undoable ? 6000 : 3000);
+  };
+
+  // --- Undo ---
+  const restoreSnapshot = useCallback((snapshot: EditSnapshot) => {
+    setQuoteName(snapshot.quoteName);
+    setQuoteItems(snapshot.quoteItems);
+    setLaborLines(snapshot.laborLines);
+    setLockedLaborRates(snapshot.lockedLaborRates);
+    setLockedTax(snapshot.lockedTax);
+    setLockedRounding(snapshot.lockedRounding);
+    setLockedJobCosts(snapshot.lockedJobCosts);
+    setQuoteDiscount(snapshot.quoteDiscount);
+    setOverrides(snapshot.overrides);
+    setCustomer(snapshot.customer);
+    setCustomerId(snapshot.customerId);
+    setPricingProfileId(snapshot.pricingProfileId);
+    setOptions(snapshot.options);
+    setSettings(prev => ({
+      ...prev,
+      persistentItems: snapshot.persistentItems,
+      laborRoles: snapshot.laborRoles,
+      savedQuotes: snapshot.savedQuotes,
+    }));
+    // Line indexes may point elsewhere now
+    setDiscountRowIdx(null);
+    setExpandedLines([]);
+  }, []);
+
+  // A backup restore replaces more than undo can put back, so earlier steps are dropped
+  // rather than undone into a mix of the backup and what was here before
+  const startHistoryAt = (next: AppSettings) => {
+    setUndoHistory(createUndoHistory({
+      ...editSnapshot,
+      persistentItems: next.persistentItems,
+      laborRoles: next.laborRoles,
+      savedQuotes: next.savedQuotes,
+    }));
   };
 
+  const handleUndo = useCallback(() => {
+    const next = undoEdit(undoHistory);
+    if (!next) return;
+    setUndoHistory(next);
+    restoreSnapshot(next.present);
+  }, [undoHistory, restoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    const next = redoEdit(undoHistory);
+    if (!next) return;
+    setUndoHistory(next);
+    restoreSnapshot(next.present);
+  }, [undoHistory, restoreSnapshot]);
+
+  // Text fields keep the browser's own undo for what is being typed
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.metaKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  useEffect(() => {
+    const change = diffSettings(persistedSettings.current, settings);
+    persistedSettings.current = settings;
+    if (isEmptyChange(change)) return;
+    storage.saveSettings(change).catch(error => {
+      setSettingsReport({ title: 'Changes could not be saved in this browser.', errors: [String(error)] });
+    });
+  }, [storage, settings]);
+
+  // Another tab saved a change: it is already stored, so apply it to both copies
+  useEffect(() => storage.subscribe(change => {
+    persistedSettings.current = applySettingsChange(persistedSettings.current, change);
+    setSettings(prev => applySettingsChange(prev, change));
+    remoteChanges.current.push(change);
+  }), [storage]);
+
+  // Also catches a link pasted into the address bar of an open tab
   useEffect(() => {
-    localStorage.setItem('quote_builder_settings', JSON.stringify(settings));
-  }, [settings]);
+    const openShareLink = () => {
+      if (!isShareLink(window.location.hash)) return;
+      readShareLink(window.location.hash).then(result => {
+        if (result.ok) setSharedQuote(result.shared);
+        else setSettingsReport({ title: 'This share link could not be opened.', errors: result.errors });
+      });
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
+  }, []);
 
   useEffect(() => {
-    localStorage.setItem('quote_builder_hours', laborHours.toString());
-    localStorage.setItem('quote_builder_items', JSON.stringify(quoteItems));
-    localStorage.setItem('quote_builder_name', quoteName);
-  }, [laborHours, quoteItems, quoteName]);
+    storage.saveWorkingQuote({ quoteName, quoteItems, laborLines, lockedLaborRates, lockedTax, lockedRounding, lockedJobCosts, quoteDiscount, overrides, customer, customerId, pricingProfileId, options })
+      .catch(error => {
+        setSettingsReport({ title: 'The working quote could not be saved in this browser.', errors: [String(error)] });
+      });
+  }, [storage, laborLines, quoteItems, quoteName, lockedLaborRates, customer, customerId, pricingProfileId, options, lockedTax, lockedRounding, lockedJobCosts, quoteDiscount, overrides]);
 
   const updateSettings = (updates: Partial<AppSettings>) => {
     setSettings(prev => ({ ...prev, ...updates }));
   };
 
+  const updateBusiness = (updates: Partial<BusinessProfile>) => {
+    setSettings(prev => ({ ...prev, business: { ...prev.business, ...updates } }));
+  };
+
+  const updateTax = (updates: Partial<TaxSettings>) => {
+    setSettings(prev => ({ ...prev, tax: { ...prev.tax, ...updates } }));
+  };
+
+  const updateMoney = (updates: Partial<MoneySettings>) => {
+    setSettings(prev => ({ ...prev, money: { ...prev.money, ...updates } }));
+  };
+
+  const updateRounding = (updates: Partial<RoundingSettings>) => {
+    setSettings(prev => ({ ...prev, money: { ...prev.money, rounding: { ...prev.money.rounding, ...updates } } }));
+  };
+
+  const updateJobCosts = (updates: Partial<JobCosts>) => {
+    setSettings(prev => ({ ...prev, jobCosts: { ...prev.jobCosts, ...updates } }));
+  };
+
+  const updateTaxRate = (id: string, updates: Partial<TaxRate>) => {
+    updateTax({ rates: settings.tax.rates.map(rate => rate.id === id ? { ...rate, ...updates } : rate) });
+  };
+
+  const updatePricingProfile = (id: string, updates: Partial<PricingProfile>) => {
+    setSettings(prev => ({ ...prev, pricingProfiles: prev.pricingProfiles.map(p => p.id === id ? { ...p, ...updates } : p) }));
+  };
+
+  // A new profile starts from the standard rates
+  const handleAddPricingProfile = () => {
+    const profile: PricingProfile = {
+      id: generateId(),
+      name: 'New Profile',
+      targetHourly: settings.targetHourly,
+      globalMarkup: settings.globalMarkup,
+      roleRates: settings.laborRoles.map(role => ({ roleId: role.id, wage: role.wage, billRate: role.billRate })),
+    };
+    updateSettings({ pricingProfiles: [...settings.pricingProfiles, profile] });
+  };
+
+  // Quotes using the profile fall back to standard pricing; saved ones keep their snapshots
+  const handleDeletePricingProfile = (id: string) => {
+    updateSettings({ pricingProfiles: settings.pricingProfiles.filter(p => p.id !== id) });
+  };
+
+  const updateLaborRole = (id: string, updates: Partial<LaborRole>) => {
+    updateSettings({ laborRoles: settings.laborRoles.map(role => role.id === id ? { ...role, ...updates } : role) });
+  };
+
+  const updateOption = (id: string, updates: Partial<QuoteOption>) => {
+    setOptions(prev => prev.map(option => option.id === id ? { ...option, ...updates } : option));
+  };
+
+  // The Labor and Materials cards edit either the shared lines or one option's
+  const editingOption = options.find(option => option.id === editingOptionId) ?? null;
+  const editedItems = editingOption ? editingOption.quoteItems : quoteItems;
+  const editedLaborLines = editingOption ? editingOption.laborLines : laborLines;
+
+  const setEditedItems = (next: QuoteItem[]) => {
+    if (editingOption) updateOption(editingOption.id, { quoteItems: next });
+    else setQuoteItems(next);
+  };
+
+  const setEditedLaborLines = (next: LaborLine[]) => {
+    if (editingOption) updateOption(editingOption.id, { laborLines: next });
+    else setLaborLines(next);
+  };
+
+  const updateLaborLine = (idx: number, updates: Partial<LaborLine>) => {
+    setEditedLaborLines(editedLaborLines.map((line, i) => i === idx ? { ...line, ...updates } : line));
+  };
+
+  const updateCustomer = (updates: Partial<CustomerDetails>) => {
+    setCustomer(prev => ({ ...prev, ...updates }));
+  };
+
+  const updateCustomerRecord = (id: string, updates: Partial<Customer>) => {
+    setSettings(prev => ({ ...prev, customers: prev.customers.map(c => c.id === id ? { ...c, ...updates } : c) }));
+  };
+
+  const handleAddCustomer = (details: CustomerDetails = EMPTY_CUSTOMER) => {
+    const record: Customer = { ...details, id: generateId(), notes: '' };
+    updateSettings({ customers: [...settings.customers, record] });
+    return record;
+  };
+
+  // Quotes keep their saved contact details; only the link is dropped
+  const handleDeleteCustomer = (id: string) => {
+    updateSettings({
+      customers: settings.customers.filter(c => c.id !== id),
+      savedQuotes: settings.savedQuotes.map(q => q.customerId === id ? { ...q, customerId: undefined } : q),
+    });
+    if (customerId === id) setCustomerId(null);
+  };
+
+  const handleSelectCustomer = (record: Customer) => {
+    setCustomerId(record.id);
+    setCustomer({ name: record.name, address: record.address, phone: record.phone, email: record.email });
+  };
+
   // --- Calculations ---
-  const laborCost = useMemo(() => calculateLaborCost(settings.wages, laborHours), [settings.wages, laborHours]);
-  const laborPrice = useMemo(() => calculateLaborPrice(laborHours, settings.targetHourly), [laborHours, settings.targetHourly]);
-  const laborProfit = laborPrice - laborCost;
+  const { currency, locale } = settings.money;
+  const money = useMemo(() => createMoneyFormatter({ currency, locale }), [currency, locale]);
+  const { targetHourly, globalMarkup, laborRoles, pricingProfiles } = settings;
+  const profilePricing = useMemo(
+    () => resolvePricing({ targetHourly, globalMarkup, laborRoles, pricingProfiles }, pricingProfileId),
+    [targetHourly, globalMarkup, laborRoles, pricingProfiles, pricingProfileId]
+  );
+  const markupPolicy = useMemo<MarkupPolicy>(
+    () => ({ globalMarkup: profilePricing.globalMarkup, rules: settings.markupRules }),
+    [profilePricing.globalMarkup, settings.markupRules]
+  );
+  // Library cards show what the standard pricing would charge
+  const standardMarkupPolicy = useMemo<MarkupPolicy>(
+    () => ({ globalMarkup, rules: settings.markupRules }),
+    [globalMarkup, settings.markupRules]
+  );
+  const currentLaborRates = useMemo<LaborRates>(
+    () => ({ targetHourly: profilePricing.targetHourly, roles: profilePricing.laborRoles }),
+    [profilePricing]
+  );
+  const laborRates = lockedLaborRates ?? currentLaborRates;
+  const taxSettings = lockedTax ?? settings.tax;
+  const quoteRounding = lockedRounding ?? settings.money.rounding;
+  const quoteJobCosts = lockedJobCosts ?? settings.jobCosts;
+
+  // Shared lines only; a quote with options is priced with one of them added
+  const sharedInput = useMemo<QuoteInput>(() => ({
+    quoteItems,
+    persistentItems: settings.persistentItems,
+    markupPolicy,
+    laborLines,
+    laborRates,
+    quoteDiscount,
+    tax: taxSettings,
+    overrides,
+    rounding: quoteRounding,
+    jobCosts: quoteJobCosts,
+  }), [quoteItems, settings.persistentItems, markupPolicy, laborLines, laborRates, quoteDiscount, taxSettings, overrides, quoteRounding, quoteJobCosts]);
+  // The Summary is for the option being edited, or the first one while the shared lines are
+  const pricedOption = editingOption ?? options[0];
+  const quoteInput = useMemo(
+    () => withOption(sharedInput, options.find(option => option.id === editingOptionId) ?? options[0]),
+    [sharedInput, options, editingOptionId]
+  );
+  const totals = useMemo(() => calculateQuoteTotals(quoteInput), [quoteInput]);
+  const optionSummary = useMemo(() => options.length > 0 ? priceOptions(sharedInput, options) : null, [sharedInput, options]);
 
-  const materials = useMemo(() => calculateMaterials(quoteItems, settings.persistentItems, settings.globalMarkup), [quoteItems, settings.persistentItems, settings.globalMarkup]);
+  const { labor, materials, tax, lines: pricedLines } = totals;
+  const { cost: laborCost, price: laborPrice, hours: laborHours } = labor;
+  const laborProfit = laborPrice - laborCost;
   const materialProfit = materials.price - materials.cost;
-  
-  const totalPrice = laborPrice + materials.price;
-  const totalCost = laborCost + materials.cost;
-  const totalProfit = totalPrice - totalCost;
-  const margin = totalPrice > 0 ? (totalProfit / totalPrice) * 100 : 0;
+
+  const { quoteDiscount: quoteDiscountAmount, discountTotal } = totals;
+  // Pre-tax figures; grandTotal is what the customer pays
+  const totalPrice = totals.subtotal;
+  const totalProfit = totals.profit;
+  const margin = totals.margin;
+  const grandTotal = totals.total;
+  const isBelowMarginFloor = (discountTotal > 0 || totals.adjustment < 0) && margin < settings.marginFloor;
+
+  // Where the edited lines start among the priced ones
+  const itemOffset = editingOption ? quoteItems.length : 0;
+  const laborOffset = editingOption ? laborLines.length : 0;
+  const editedPricedLines = pricedLines.filter(line => line.index >= itemOffset && line.index < itemOffset + editedItems.length);
+
+  const today = todayIso();
+  const historyEntries = useMemo(() => buildHistoryEntries(settings.savedQuotes), [settings.savedQuotes]);
+  const historyResults = useMemo(() => queryHistory(historyEntries, historyQuery), [historyEntries, historyQuery]);
+  const historyPageCount = Math.max(1, Math.ceil(historyResults.length / HISTORY_PAGE_SIZE));
+  const currentHistoryPage = Math.min(historyPage, historyPageCount - 1);
+  const historyPageEntries = historyResults.slice(currentHistoryPage * HISTORY_PAGE_SIZE, (currentHistoryPage + 1) * HISTORY_PAGE_SIZE);
+  const viewingQuote = settings.savedQuotes.find(q => q.id === viewingQuoteId) ?? null;
+  const sharedMoney = useMemo(() => sharedQuote && createMoneyFormatter(sharedQuote.money), [sharedQuote]);
+
+  const workingFingerprint = fingerprintWorkingQuote({ quoteItems, laborLines, quoteDiscount, overrides, customer, pricingProfileId, options });
+  const hasUnsavedWork = (quoteItems.length > 0 || laborLines.length > 0 || options.length > 0) && workingFingerprint !== cleanFingerprint;
+
+  const allQuoteItems = useMemo(() => [...quoteItems, ...options.flatMap(option => option.quoteItems)], [quoteItems, options]);
+  const isSnapshotPriced = lockedLaborRates !== null || lockedTax !== null || lockedRounding !== null || lockedJobCosts !== null || allQuoteItems.some(qItem => qItem.snapshot);
+  const repriceLines = useMemo(
+    () => buildRepriceLines(allQuoteItems, settings.persistentItems, markupPolicy),
+    [allQuoteItems, settings.persistentItems, markupPolicy]
+  );
+
+  const repricedItems = useMemo(() => priceFromLibrary(quoteItems, settings.persistentItems), [quoteItems, settings.persistentItems]);
+  const repricedOptions = useMemo(
+    () => options.map(option => ({ ...option, quoteItems: priceFromLibrary(option.quoteItems, settings.persistentItems) })),
+    [options, settings.persistentItems]
+  );
+  const repricedTaxTotal = useMemo(() => {
+    const repricedOption = repricedOptions.find(option => option.id === editingOptionId) ?? repricedOptions[0];
+    return calculateQuoteTotals(withOption({
+      ...sharedInput,
+      quoteItems: repricedItems,
+      laborRates: currentLaborRates,
+      tax: settings.tax,
+      rounding: settings.money.rounding,
+      jobCosts: settings.jobCosts,
+    }, repricedOption)).tax.total;
+  }, [sharedInput, repricedItems, repricedOptions, editingOptionId, currentLaborRates, settings.tax, settings.money.rounding, settings.jobCosts]);
 
   // --- Handlers ---
   const handleAddPersistentItem = () => {
-    const newItem: PersistentItem = { id: generateId(), name: 'New Item', cost: 0, useCustomMarkup: false, customMarkup: 0 };
+    const category = activeLibraryCategory ?? '';
+    const newItem: PersistentItem = { id: generateId(), name: 'New Item', sku: '', category, unit: 'each', supplier: '', notes: '', cost: 0, useCustomMarkup: false, customMarkup: 0, taxable: true, parts: [], labor: [], costHistory: [] };
     updateSettings({ persistentItems: [...settings.persistentItems, newItem] });
   };
 
   const handleUpdatePersistentItem = (id: string, updates: Partial<PersistentItem>) => {
+    const { cost, ...rest } = updates;
     updateSettings({
-      persistentItems: settings.persistentItems.map(item => item.id === id ? { ...item, ...updates } : item)
+      persistentItems: settings.persistentItems.map(item => {
+        if (item.id !== id) return item;
+        return { ...(cost === undefined ? item : recordCostChange(item, cost)), ...rest };
+      })
     });
   };
 
   const handleDeletePersistentItem = (id: string) => {
-    updateSettings({ persistentItems: settings.persistentItems.filter(item => item.id !== id) });
+    const item = settings.persistentItems.find(i => i.id === id);
+    updateSettings({ persistentItems: settings.persistentItems.filter(i => i.id !== id) });
+    addToast(`${item?.name || 'Item'} deleted.`, 'success', true);
   };
 
   const handleAddToQuote = (itemId: string) => {
-    setQuoteItems([...quoteItems, { itemId, quantity: 1 }]);
+    setEditedItems([...editedItems, { itemId, quantity: 1 }]);
   };
 
-  const handleSaveQuote = () => {
-    if (!quoteName) {
-      addToast('Please enter a quote name.', 'error');
+  const handleAddLaborLine = () => {
+    const role = laborRates.roles[0];
+    if (!role) {
+      addToast('Add a labor role in Settings first.', 'error');
       return;
     }
-    const newQuote: SavedQuote = {
+    setEditedLaborLines([...editedLaborLines, { roleId: role.id, hours: 0 }]);
+  };
+
+  const handleEditOption = (id: string | null) => {
+    setEditingOptionId(id);
+    setDiscountRowIdx(null);
+    setExpandedLines([]);
+  };
+
+  const handleAddOption = () => {
+    const option = createOption(options);
+    setOptions([...options, option]);
+    handleEditOption(option.id);
+  };
+
+  const handleDeleteOption = (option: QuoteOption) => {
+    setOptions(options.filter(o => o.id !== option.id));
+    handleEditOption(null);
+    addToast(`${option.name || 'Option'} removed.`, 'success', true);
+  };
+
+  // The working quote as it would go into history
+  const snapshotWorkingQuote = (): SavedQuote => {
+    // Like any saved quote with options, the totals are for the first until the customer chooses
+    const savedTotals = optionSummary?.options[0].totals ?? totals;
+    return {
       id: generateId(),
       name: quoteName,
       date: new Date().toLocaleDateString(),
-      items: [...quoteItems],
-      laborHours,
-      totalPrice
+      items: snapshotQuoteItems(quoteItems, settings.persistentItems, markupPolicy),
+      laborLines: laborLines.map(line => ({ ...line })),
+      ...(options.length > 0 && {
+        options: options.map(option => ({
+          id: option.id,
+          name: option.name,
+          items: snapshotQuoteItems(option.quoteItems, settings.persistentItems, markupPolicy),
+          laborLines: option.laborLines.map(line => ({ ...line })),
+        })),
+      }),
+      laborRates: { targetHourly: laborRates.targetHourly, roles: laborRates.roles.map(role => ({ ...role })) },
+      tax: { ...taxSettings, rates: taxSettings.rates.map(rate => ({ ...rate })) },
+      ...(quoteDiscount?.value && { discount: { ...quoteDiscount } }),
+      discountTotal: savedTotals.discountTotal,
+      ...(hasOverrides(overrides) && { overrides: { ...overrides } }),
+      subtotal: savedTotals.subtotal,
+      taxLines: savedTotals.tax.lines,
+      totalTax: savedTotals.tax.total,
+      totalPrice: savedTotals.total,
+      rounding: { ...quoteRounding },
+      jobCosts: { ...quoteJobCosts },
+      ...(Object.values(customer).some(Boolean) && { customer: { ...customer } }),
+      ...(linkedCustomer && { customerId: linkedCustomer.id }),
+      ...(profilePricing.profile && { pricingProfileId: profilePricing.profile.id }),
+      status: 'draft',
+      statusHistory: [{ status: 'draft', at: new Date().toISOString() }],
+      ...(settings.quoteValidityDays > 0 && { expiresOn: addDaysIso(settings.quoteValidityDays) }),
     };
-    updateSettings({ savedQuotes: [newQuote, ...settings.savedQuotes] });
+  };
+
+  const handleSaveQuote = () => {
+    if (!quoteName) {
+      addToast('Please enter a quote name.', 'error');
+      return;
+    }
+    updateSettings({ savedQuotes: [snapshotWorkingQuote(), ...settings.savedQuotes] });
+    setCleanFingerprint(workingFingerprint);
     setQuoteName('');
     addToast('Quote saved to history!', 'success');
   };
 
+  const handleCopyShareLink = async (quote: SavedQuote) => {
+    const { business, money: moneySettings, shareView } = settings;
+    try {
+      const link = await createShareLink({ quote, business, money: moneySettings, view: shareView }, window.location.origin + window.location.pathname);
+      await navigator.clipboard.writeText(link);
+    } catch {
+      addToast('Failed to copy the share link.', 'error');
+      return;
+    }
+    addToast(shareView === 'internal' ? 'Share link copied, with costs and margin.' : 'Share link copied.', 'success');
+  };
+
+  const closeSharedQuote = () => {
+    setSharedQuote(null);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  };
+
+  const handleImportSharedQuote = (quote: SavedQuote) => {
+    updateSettings({ savedQuotes: [{ ...quote, id: generateId() }, ...settings.savedQuotes] });
+    closeSharedQuote();
+    addToast(`${quote.name || 'Quote'} added to history.`, 'success');
+  };
+
+  const updateSavedQuote = (quote: SavedQuote) => {
+    updateSettings({ savedQuotes: settings.savedQuotes.map(q => q.id === quote.id ? quote : q) });
+  };
+
+  const updateHistoryQuery = (updates: Partial<HistoryQuery>) => {
+    setHistoryQuery(prev => ({ ...prev, ...updates }));
+    setHistoryPage(0);
+  };
+
+  const handleSortHistory = (sort: HistorySort) => {
+    if (historyQuery.sort === sort) {
+      updateHistoryQuery({ direction: historyQuery.direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      updateHistoryQuery({ sort, direction: 'desc' });
+    }
+  };
+
+  // Starts a new working quote from a saved one; the saved quote itself is never edited
+  const handleDuplicateQuote = (quote: SavedQuote) => {
+    if (hasUnsavedWork && !confirm('Replace the quote you are working on? Its unsaved changes will be lost.')) return;
+    const next = {
+      quoteItems: quote.items.map(qItem => ({ ...qItem })),
+      laborLines: quote.laborLines.map(line => ({ ...line })),
+      quoteDiscount: quote.discount ?? null,
+      overrides: quote.overrides ?? NO_OVERRIDES,
+      customer: quote.customer ?? EMPTY_CUSTOMER,
+      pricingProfileId: quote.pricingProfileId ?? null,
+      options: (quote.options ?? []).map(option => ({
+        id: option.id,
+        name: option.name,
+        quoteItems: option.items.map(qItem => ({ ...qItem })),
+        laborLines: option.laborLines.map(line => ({ ...line })),
+      })),
+    };
+    setQuoteItems(next.quoteItems);
+    setLaborLines(next.laborLines);
+    setLockedLaborRates(quote.laborRates);
+    setLockedTax(quote.tax);
+    setLockedRounding(quote.rounding ?? LEGACY_ROUNDING);
+    setLockedJobCosts(quote.jobCosts ?? NO_JOB_COSTS);
+    setQuoteDiscount(next.quoteDiscount);
+    setOverrides(next.overrides);
+    setQuoteName(`${quote.name} (copy)`);
+    setCustomer(next.customer);
+    setCustomerId(quote.customerId ?? null);
+    setPricingProfileId(next.pricingProfileId);
+    setOptions(next.options);
+    handleEditOption(null);
+    setShowReprice(false);
+    setCleanFingerprint(fingerprintWorkingQuote(next));
+    setViewingQuoteId(null);
+    setActiveTab('quote');
+    addToast(`Duplicated ${quote.name} as a new quote.`, 'success');
+  };
+
   const handleClearQuote = () => {
-    if (confirm('Are you sure you want to clear the current quote? This cannot be undone.')) {
-      setQuoteName('');
-      setQuoteItems([]);
-      setLaborHours(0);
-      addToast('Quote cleared.', 'success');
+    setQuoteName('');
+    setQuoteItems([]);
+    setLaborLines([]);
+    setLockedLaborRates(null);
+    setLockedTax(null);
+    setLockedRounding(null);
+    setLockedJobCosts(null);
+    setQuoteDiscount(null);
+    setOverrides(NO_OVERRIDES);
+    setShowReprice(false);
+    setCustomer(EMPTY_CUSTOMER);
+    setCustomerId(null);
+    setPricingProfileId(null);
+    setOptions([]);
+    handleEditOption(null);
+    setCleanFingerprint(null);
+    addToast('Quote cleared.', 'success', true);
+  };
+
+  const handleRemoveQuoteItem = (idx: number) => {
+    setEditedItems(editedItems.filter((_, i) => i !== idx));
+    setDiscountRowIdx(null);
+    setExpandedLines([]);
+    addToast('Line removed.', 'success', true);
+  };
+
+  const handleRemoveLaborLine = (idx: number) => {
+    setEditedLaborLines(editedLaborLines.filter((_, i) => i !== idx));
+    addToast('Labor removed.', 'success', true);
+  };
+
+  const handleDeleteLaborRole = (role: LaborRole) => {
+    updateSettings({ laborRoles: settings.laborRoles.filter(r => r.id !== role.id) });
+    addToast(`${role.name || 'Wage'} deleted.`, 'success', true);
+  };
+
+  const handleDeleteSavedQuote = (quote: SavedQuote) => {
+    updateSettings({ savedQuotes: settings.savedQuotes.filter(q => q.id !== quote.id) });
+    addToast(`${quote.name || 'Quote'} deleted.`, 'success', true);
+  };
+
+  const handleLogoUpload = (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > 500 * 1024) {
+      addToast('Logo must be smaller than 500 KB.', 'error');
+      return;
     }
+    const reader = new FileReader();
+    reader.onload = () => updateBusiness({ logo: String(reader.result) });
+    reader.onerror = () => addToast('Failed to read logo file.', 'error');
+    reader.readAsDataURL(file);
+  };
+
+  const handleLibraryCsvUpload = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const rows = parseCsv(String(reader.result));
+      if (rows.length < 2) {
+        addToast('CSV needs a header row and at least one item.', 'error');
+        return;
+      }
+      setLibraryImport({ fileName: file.name, rows });
+    };
+    reader.onerror = () => addToast('Failed to read CSV file.', 'error');
+    reader.readAsText(file);
+  };
+
+  const handleApplyLibraryImport = (plan: ImportRow[]) => {
+    const { added, updated, skipped } = summarizeImport(plan);
+    updateSettings({ persistentItems: applyLibraryImport(settings.persistentItems, plan, generateId) });
+    setLibraryImport(null);
+    addToast(`Imported ${added} new, ${updated} updated, ${skipped} skipped.`, 'success');
+  };
+
+  const handleExportLibraryCsv = () => {
+    downloadFile(libraryToCsv(settings.persistentItems), 'item-library.csv', 'text/csv');
+  };
+
+  const handleDownloadBackup = () => {
+    downloadFile(JSON.stringify(settings, null, 2), backupFileName(), 'application/json');
+  };
+
+  const handleBackupUpload = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(String(reader.result));
+      } catch {
+        setSettingsReport({ title: `Restore failed: ${file.name} is not a backup file.`, errors: ['The file is not valid JSON'] });
+        return;
+      }
+      const result = parseSettings(parsed);
+      if (!result.ok) {
+        setSettingsReport({ title: `Restore failed: ${file.name} has errors.`, errors: result.errors });
+        return;
+      }
+      setBackupRestore({ fileName: file.name, settings: result.settings, migratedFrom: result.migratedFrom });
+    };
+    reader.onerror = () => addToast('Failed to read backup file.', 'error');
+    reader.readAsText(file);
+  };
+
+  const handleReplaceFromBackup = () => {
+    if (!backupRestore) return;
+    setSettings(backupRestore.settings);
+    startHistoryAt(backupRestore.settings);
+    setSettingsReport(null);
+    setBackupRestore(null);
+    addToast(backupRestore.migratedFrom < SCHEMA_VERSION ? 'Backup upgraded and restored!' : 'Backup restored!', 'success');
+  };
+
+  const handleMergeBackup = (merged: AppSettings, rows: MergeRow[]) => {
+    const { added, updated } = summarizeMerge(rows);
+    setSettings(merged);
+    startHistoryAt(merged);
+    setBackupRestore(null);
+    addToast(`Merged ${added} new and ${updated} updated.`, 'success');
+  };
+
+  const handleApplyReprice = () => {
+    setQuoteItems(repricedItems);
+    setOptions(repricedOptions);
+    setLockedLaborRates(null);
+    setLockedTax(null);
+    setLockedRounding(null);
+    setLockedJobCosts(null);
+    setShowReprice(false);
+    addToast('Quote repriced with current library.', 'success');
   };
 
   return (
-    <div className="app-container">
-      <Ariakit.TabProvider defaultSelectedId="quote">
-        <Ariakit.TabList className="tabs" aria-label="Main Navigation">
-          <Ariakit.Tab id="quote" className="tab-btn">Quote</Ariakit.Tab>
-          <Ariakit.Tab id="history" className="tab-btn">History</Ariakit.Tab>
-          <Ariakit.Tab id="settings" className="tab-btn">Settings</Ariakit.Tab>
-        </Ariakit.TabList>
-
-        <main className="content">
-          <Ariakit.TabPanel tabId="quote">
-            <Card title="Labor & Time">
-              <div style={{ display: 'flex', width: '100%', marginBottom: '1rem' }}>
-                <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
-                  <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Labor Cost</div>
-                  <div className="mono-val danger" style={{ fontSize: '0.85rem' }}>${laborCost.toFixed(2)}</div>
-                </div>
-                <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
-                  <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Labor Profit</div>
-                  <div className="mono-val success" style={{ fontSize: '0.85rem' }}>${laborProfit.toFixed(2)}</div>
-                </div>
-                <div style={{ flex: 1, textAlign: 'center' }}>
-                  <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Labor Total</div>
-                  <div className="mono-val bold" style={{ fontSize: '0.85rem' }}>${laborPrice.toFixed(2)}</div>
-                </div>
-              </div>
-              <div className="divider" style={{ marginBottom: '1.5rem' }} />
-              <div className="flex-center">
-                <div style={{ width: '85px' }}>
-                  <Input 
-                    label="Hours" 
-                    type="number" 
-                    className="input-lg"
-                    containerClassName="text-center"
-                    value={laborHours || ''} 
-                    onChange={e => setLaborHours(Number(e.target.value))} 
-                    style={{ textAlign: 'center' }}
-                  />
+    <MoneyContext.Provider value={money}>
+      <div className="app-container">
+        <AppStatus />
+        {settingsReport && (
+          <ErrorReport
+            title={settingsReport.title}
+            errors={settingsReport.errors}
+            onDismiss={() => setSettingsReport(null)}
+          />
+        )}
+        <Ariakit.TabProvider selectedId={activeTab} setSelectedId={setActiveTab}>
+          <div className="nav-row">
+            <Ariakit.TabList className="tabs" aria-label="Main Navigation">
+              <Ariakit.Tab id="quote" className="tab-btn">Quote</Ariakit.Tab>
+              <Ariakit.Tab id="history" className="tab-btn">History</Ariakit.Tab>
+              <Ariakit.Tab id="customers" className="tab-btn">Customers</Ariakit.Tab>
+              <Ariakit.Tab id="settings" className="tab-btn">Settings</Ariakit.Tab>
+            </Ariakit.TabList>
+            <div className="undo-controls">
+              <Button variant="ghost" size="sm" title="Undo (Ctrl+Z)" aria-label="Undo" disabled={undoHistory.past.length === 0} onClick={handleUndo}>↶</Button>
+              <Button variant="ghost" size="sm" title="Redo (Ctrl+Shift+Z)" aria-label="Redo" disabled={undoHistory.future.length === 0} onClick={handleRedo}>↷</Button>
+            </div>
+          </div>
+
+          <main className="content">
+            <Ariakit.TabPanel tabId="quote">
+              {isSnapshotPriced && !showReprice && (
+                <div className="notice-row">
+                  <span className="text-dim">Priced from the saved quote's snapshot, not the current library.</span>
+                  <Button variant="secondary" size="sm" onClick={() => setShowReprice(true)}>Reprice with Current Library</Button>
                 </div>
-              </div>
-            </Card>
+              )}
+              {showReprice && (
+                <RepriceReview
+                  lines={repriceLines}
+                  laborLines={[...quoteInput.laborLines, ...totals.assemblyLabor]}
+                  oldLabor={lockedLaborRates}
+                  newLabor={currentLaborRates}
+                  tax={{ oldAmount: tax.total, newAmount: repricedTaxTotal }}
+                  onApply={handleApplyReprice}
+                  onCancel={() => setShowReprice(false)}
+                />
+              )}
 
-            <Card title="Materials">
-              {quoteItems.length > 0 && (
-                <>
-                  <div style={{ display: 'flex', width: '100%', marginBottom: '1rem' }}>
-                    <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
-                      <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Materials Cost</div>
-                      <div className="mono-val danger" style={{ fontSize: '0.85rem' }}>${materials.cost.toFixed(2)}</div>
+              {settings.pricingProfiles.length > 0 && (
+                <div className="flex-row align-center">
+                  <span className="field-label no-margin">Pricing Profile</span>
+                  <Ariakit.SelectProvider value={pricingProfileId ?? ''} setValue={id => setPricingProfileId(id || null)}>
+                    <Ariakit.Select className="select-trigger flex-1">{profilePricing.profile ? profilePricing.profile.name : 'Standard'}</Ariakit.Select>
+                    <Ariakit.SelectPopover gutter={4} sameWidth className="select-popover">
+                      <Ariakit.SelectItem value="" className="combobox-item">Standard</Ariakit.SelectItem>
+                      {settings.pricingProfiles.map(profile => (
+                        <Ariakit.SelectItem key={profile.id} value={profile.id} className="combobox-item">{profile.name}</Ariakit.SelectItem>
+                      ))}
+                    </Ariakit.SelectPopover>
+                  </Ariakit.SelectProvider>
+                </div>
+              )}
+
+              <Card title="Options" actions={<Button variant="secondary" size="sm" onClick={handleAddOption}>+ Add Option</Button>}>
+                {options.length === 0 ? (
+                  <div className="text-dim">
+                    Offer good, better and best versions of the job. Lines already on the quote become shared by every option.
+                  </div>
+                ) : (
+                  <>
+                    <div className="card-actions" style={{ flexWrap: 'wrap' }}>
+                      <Button variant={editingOption ? 'secondary' : 'primary'} size="sm" onClick={() => handleEditOption(null)}>Shared</Button>
+                      {options.map(option => (
+                        <Button
+                          key={option.id}
+                          variant={editingOption?.id === option.id ? 'primary' : 'secondary'}
+                          size="sm"
+                          onClick={() => handleEditOption(option.id)}
+                        >
+                          {option.name || 'Unnamed option'}
+                        </Button>
+                      ))}
                     </div>
-                    <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
-                      <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Materials Profit</div>
-                      <div className="mono-val success" style={{ fontSize: '0.85rem' }}>${materialProfit.toFixed(2)}</div>
+                    {editingOption ? (
+                      <div className="flex-row no-margin align-center" style={{ marginTop: '1rem' }}>
+                        <Input
+                          placeholder="Option Name"
+                          value={editingOption.name}
+                          onChange={e => updateOption(editingOption.id, { name: e.target.value })}
+                          containerClassName="flex-1 no-margin"
+                        />
+                        <Button variant="danger" size="sm" className="btn-icon" onClick={() => handleDeleteOption(editingOption)}>✕</Button>
+                      </div>
+                    ) : (
+                      <div className="text-dim" style={{ marginTop: '1rem' }}>
+                        Editing the lines every option includes. Totals below are for {pricedOption?.name || 'the first option'}.
+                      </div>
+                    )}
+                  </>
+                )}
+              </Card>
+
+              <Card title="Labor & Time" actions={<Button variant="secondary" size="sm" onClick={handleAddLaborLine}>+ Add Labor</Button>}>
+                <div style={{ display: 'flex', width: '100%', marginBottom: '1rem' }}>
+                  <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
+                    <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Labor Cost</div>
+                    <div className="mono-val danger" style={{ fontSize: '0.85rem' }}>{money.format(laborCost)}</div>
+                  </div>
+                  <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
+                    <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Labor Profit</div>
+                    <div className="mono-val success" style={{ fontSize: '0.85rem' }}>{money.format(laborProfit)}</div>
+                  </div>
+                  <div style={{ flex: 1, textAlign: 'center' }}>
+                    <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Labor Total</div>
+                    <div className="mono-val bold" style={{ fontSize: '0.85rem' }}>{money.format(laborPrice)}</div>
+                  </div>
+                </div>
+                <div className="divider" style={{ marginBottom: '1rem' }} />
+                <div className="items-list">
+                  {editedLaborLines.length === 0 && totals.assemblyLabor.length === 0 && (
+                    <div className="text-dim" style={{ textAlign: 'center' }}>No labor added.</div>
+                  )}
+                  {totals.assemblyLabor.length > 0 && (
+                    <div className="item-subtext" style={{ textAlign: 'center' }}>
+                      + {totals.assemblyLabor.reduce((sum, line) => sum + line.hours, 0)} hrs from assemblies
                     </div>
-                    <div style={{ flex: 1, textAlign: 'center' }}>
-                      <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Materials Total</div>
-                      <div className="mono-val bold" style={{ fontSize: '0.85rem' }}>${materials.price.toFixed(2)}</div>
+                  )}
+                  {editedLaborLines.map((line, idx) => {
+                    const role = laborRates.roles.find(r => r.id === line.roleId);
+                    const priced = labor.lines.find(l => l.index === idx + laborOffset);
+                    const lineCost = priced?.cost ?? 0;
+                    const linePrice = priced?.price ?? 0;
+                    return (
+                      <div key={idx} className="item-row align-center">
+                        <div className="item-name-col">
+                          <Ariakit.SelectProvider value={line.roleId} setValue={roleId => updateLaborLine(idx, { roleId })}>
+                            <Ariakit.Select className="select-trigger">{role ? role.name : 'Select role...'}</Ariakit.Select>
+                            <Ariakit.SelectPopover gutter={4} sameWidth className="select-popover">
+                              {laborRates.roles.map(r => (
+                                <Ariakit.SelectItem key={r.id} value={r.id} className="combobox-item">{r.name}</Ariakit.SelectItem>
+                              ))}
+                            </Ariakit.SelectPopover>
+                          </Ariakit.SelectProvider>
+                          <span className="item-subtext" style={{ marginTop: '4px' }}>
+                            {role
+                              ? `Wage: ${money.format(role.wage)} | Bill: ${money.format(overrides.hourlyRate ?? getBillRate(role, laborRates.targetHourly))}/hr${overrides.hourlyRate !== null ? ' (quote rate)' : ''}`
+                              : 'Role no longer exists'}
+                          </span>
+                        </div>
+                        <div className="item-meta-col">
+                          <Input 
+                            type="number" 
+                            placeholder="Hrs"
+                            value={line.hours || ''} 
+                            className="input-qty mobile-width-qty"
+                            containerClassName="no-margin"
+                            style={{ width: '75px', textAlign: 'center' }}
+                            onChange={e => updateLaborLine(idx, { hours: Number(e.target.value) })}
+                          />
+                          <div className="mobile-min-width-stack" style={{ textAlign: 'right', minWidth: '110px', display: 'flex', flexDirection: 'column', justifyContent: 'center', gap: '2px' }}>
+                            <div style={{ fontSize: '0.75rem' }}>
+                              <span className="item-subtext">
+                                <span className="hide-mobile">Cost:</span>
+                                <span className="show-mobile">C:</span>
+                              </span> <span className="mono-val danger">{money.format(lineCost)}</span>
+                            </div>
+                            <div style={{ fontSize: '0.75rem' }}>
+                              <span className="item-subtext">
+                                <span className="hide-mobile">Profit:</span>
+                                <span className="show-mobile">P:</span>
+                              </span> <span className="mono-val success">{money.format(linePrice - lineCost)}</span>
+                            </div>
+                          </div>
+                          <div className="mobile-min-width-total" style={{ textAlign: 'right', minWidth: '100px' }}>
+                             <div className="item-subtext">Total Price</div>
+                             <div className="mono-val bold">{money.format(linePrice)}</div>
+                          </div>
+                          <Button variant="danger" size="sm" className="btn-icon" onClick={() => handleRemoveLaborLine(idx)}>✕</Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Card>
+
+              <Card title="Materials">
+                {quoteInput.quoteItems.length > 0 && (
+                  <>
+                    <div style={{ display: 'flex', width: '100%', marginBottom: '1rem' }}>
+                      <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
+                        <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Materials Cost</div>
+                        <div className="mono-val danger" style={{ fontSize: '0.85rem' }}>{money.format(materials.cost)}</div>
+                      </div>
+                      <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
+                        <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Materials Profit</div>
+                        <div className="mono-val success" style={{ fontSize: '0.85rem' }}>{money.format(materialProfit)}</div>
+                      </div>
+                      <div style={{ flex: 1, textAlign: 'center' }}>
+                        <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Materials Total</div>
+                        <div className="mono-val bold" style={{ fontSize: '0.85rem' }}>{money.format(materials.price)}</div>
+                      </div>
                     </div>
+                    <div className="divider" style={{ marginBottom: '1rem' }} />
+                  </>
+                )}
+
+                <Ariakit.ComboboxProvider 
+                  value={searchValue}
+                  setValue={(val) => {
+                    // If the value matches an item name exactly, it's a selection
+                    const selectedItem = settings.persistentItems.find(i => i.name === val);
+                    if (selectedItem) {
+                      handleAddToQuote(selectedItem.id);
+                      setSearchValue(''); // Clear immediately
+                    } else {
+                      setSearchValue(val); // Otherwise just update typing
+                    }
+                  }}
+                >
+                  <div className="input-container">
+                    <Ariakit.Combobox 
+                      placeholder="Add Item from Library..." 
+                      className="select-trigger" 
+                    />
                   </div>
-                  <div className="divider" style={{ marginBottom: '1rem' }} />
-                </>
-              )}
+                  <Ariakit.ComboboxPopover gutter={4} sameWidth className="select-popover">
+                    {filteredItems.map((item, idx) => (
+                      <React.Fragment key={item.id}>
+                        <Ariakit.ComboboxItem 
+                          value={item.name} 
+                          className="combobox-item"
+                        >
+                          {item.name}{item.sku && <span className="text-dim"> #{item.sku}</span>} {isAssembly(item) ? <span className="cyan">(Assembly)</span> : `(${money.format(item.cost)}/${item.unit})`}
+                          {item.category && <span className="item-subtext"> • {item.category}</span>}
+                        </Ariakit.ComboboxItem>
+                        {idx < filteredItems.length - 1 && <Ariakit.ComboboxSeparator className="combobox-separator" />}
+                      </React.Fragment>
+                    ))}
+                    {filteredItems.length === 0 && <div className="combobox-item">No items found</div>}
+                  </Ariakit.ComboboxPopover>
+                </Ariakit.ComboboxProvider>
 
-              <Ariakit.ComboboxProvider 
-                value={searchValue}
-                setValue={(val) => {
-                  // If the value matches an item name exactly, it's a selection
-                  const selectedItem = settings.persistentItems.find(i => i.name === val);
-                  if (selectedItem) {
-                    handleAddToQuote(selectedItem.id);
-                    setSearchValue(''); // Clear immediately
-                  } else {
-                    setSearchValue(val); // Otherwise just update typing
-                  }
-                }}
-              >
-                <div className="input-container">
-                  <Ariakit.Combobox 
-                    placeholder="Add Item from Library..." 
-                    className="select-trigger" 
-                  />
-                </div>
-                <Ariakit.ComboboxPopover gutter={4} sameWidth className="select-popover">
-                  {filteredItems.map((item, idx) => (
-                    <React.Fragment key={item.id}>
-                      <Ariakit.ComboboxItem 
-                        value={item.name} 
-                        className="combobox-item"
-                      >
-                        {item.name} (${item.cost.toFixed(2)})
-                      </Ariakit.ComboboxItem>
-                      {idx < filteredItems.length - 1 && <Ariakit.ComboboxSeparator className="combobox-separator" />}
-                    </React.Fragment>
-                  ))}
-                  {filteredItems.length === 0 && <div className="combobox-item">No items found</div>}
-                </Ariakit.ComboboxPopover>
-              </Ariakit.ComboboxProvider>
-
-              <div className="items-list" style={{ marginTop: '1rem' }}>
-                {quoteItems.map((qItem, idx) => {
-                  const pItem = settings.persistentItems.find(i => i.id === qItem.itemId);
-                  if (!pItem) return null;
-                  const itemCost = pItem.cost * qItem.quantity;
-                  const markup = pItem.useCustomMarkup ? pItem.customMarkup : settings.globalMarkup;
-                  const itemPrice = itemCost * (1 + markup / 100);
-                  return (
-                    <div key={idx} className="item-row align-center">
-                      <div className="item-name-col">
-                        <span className="item-name">{pItem.name}</span>
-                        <span className="item-subtext">Base: ${pItem.cost.toFixed(2)} | {markup}%</span>
-                      </div>
-                      <div className="item-meta-col">
-                        <Input 
-                          type="number" 
-                          value={qItem.quantity} 
-                          className="input-qty mobile-width-qty"
-                          containerClassName="no-margin"
-                          style={{ width: '75px', textAlign: 'center' }}
-                          onChange={e => {
-                            const next = [...quoteItems];
-                            next[idx].quantity = Number(e.target.value);
-                            setQuoteItems(next);
-                          }}
-                        />
-                        <div className="mobile-min-width-stack" style={{ textAlign: 'right', minWidth: '110px', display: 'flex', flexDirection: 'column', justifyContent: 'center', gap: '2px' }}>
-                          <div style={{ fontSize: '0.75rem' }}>
-                            <span className="item-subtext">
-                              <span className="hide-mobile">Cost:</span>
-                              <span className="show-mobile">C:</span>
-                            </span> <span className="mono-val danger">${itemCost.toFixed(2)}</span>
+                <div className="items-list" style={{ marginTop: '1rem' }}>
+                  {editedPricedLines.map(({ index: idx, item: qItem, pricing, cost: itemCost, price: itemPrice, discount: itemDiscount }) => {
+                    const isExpanded = expandedLines.includes(idx);
+                    return (
+                      <React.Fragment key={idx}>
+                      <div className="item-row align-center">
+                        <div className="item-name-col">
+                          <span className="item-name">
+                            {pricing.parts && (
+                              <button 
+                                className="assembly-toggle" 
+                                title={isExpanded ? 'Collapse assembly' : 'Expand assembly'}
+                                onClick={() => setExpandedLines(isExpanded ? expandedLines.filter(i => i !== idx) : [...expandedLines, idx])}
+                              >
+                                {isExpanded ? '▾' : '▸'}
+                              </button>
+                            )}
+                            {pricing.name}
+                          </span>
+                          <span className="item-subtext">
+                            {pricing.parts && `Assembly • ${pricing.parts.length} parts${pricing.labor?.length ? ` + ${pricing.labor.reduce((sum, line) => sum + line.hours, 0)} hrs` : ''} | `}
+                            Base: {money.format(pricing.unitCost)}/{pricing.unit} | {pricing.markup}%{overrides.markup !== null ? ' (quote markup)' : pricing.markupSource && ` (${describeMarkupSource(pricing.markupSource, money.format)})`}{!pricing.taxable && ' | Non-taxable'}{qItem.snapshot && ' | Saved price'}
+                            {itemDiscount > 0 && qItem.discount && <> | <span className="cyan">-{formatDiscount(qItem.discount, money.format)}</span></>}
+                          </span>
+                        </div>
+                        <div className="item-meta-col">
+                          <Input 
+                            type="number" 
+                            value={qItem.quantity} 
+                            className="input-qty mobile-width-qty"
+                            containerClassName="no-margin"
+                            style={{ width: '75px', textAlign: 'center' }}
+                            onChange={e => {
+                              const next = [...editedItems];
+                              next[idx - itemOffset] = { ...next[idx - itemOffset], quantity: Number(e.target.value) };
+                              setEditedItems(next);
+                            }}
+                          />
+                          <span className="item-subtext" style={{ minWidth: '2.5rem' }}>{pricing.unit}</span>
+                          <div className="mobile-min-width-stack" style={{ textAlign: 'right', minWidth: '110px', display: 'flex', flexDirection: 'column', justifyContent: 'center', gap: '2px' }}>
+                            <div style={{ fontSize: '0.75rem' }}>
+                              <span className="item-subtext">
+                                <span className="hide-mobile">Cost:</span>
+                                <span className="show-mobile">C:</span>
+                              </span> <span className="mono-val danger">{money.format(itemCost)}</span>
+                            </div>
+                            <div style={{ fontSize: '0.75rem' }}>
+                              <span className="item-subtext">
+                                <span className="hide-mobile">Profit:</span>
+                                <span className="show-mobile">P:</span>
+                              </span> <span className="mono-val success">{money.format(itemPrice - itemCost)}</span>
+                            </div>
                           </div>
-                          <div style={{ fontSize: '0.75rem' }}>
-                            <span className="item-subtext">
-                              <span className="hide-mobile">Profit:</span>
-                              <span className="show-mobile">P:</span>
-                            </span> <span className="mono-val success">${(itemPrice - itemCost).toFixed(2)}</span>
+                          <div className="mobile-min-width-total" style={{ textAlign: 'right', minWidth: '100px' }}>
+                             <div className="item-subtext">Total Price</div>
+                             <div className="mono-val bold">{money.format(itemPrice)}</div>
                           </div>
+                          <Button 
+                            variant="secondary" 
+                            size="sm" 
+                            className="btn-icon" 
+                            title="Line discount"
+                            onClick={() => setDiscountRowIdx(discountRowIdx === idx ? null : idx)}
+                          >
+                            %
+                          </Button>
+                          <Button variant="danger" size="sm" className="btn-icon" onClick={() => handleRemoveQuoteItem(idx - itemOffset)}>✕</Button>
+                        </div>
+                      </div>
+                      {isExpanded && pricing.parts && (
+                        <div className="assembly-parts">
+                          {pricing.parts.map((part, partIdx) => {
+                            const partQuantity = part.quantity * qItem.quantity;
+                            const partLine = calculateLine(overrides.markup === null ? part.snapshot : withMarkup(part.snapshot, overrides.markup), partQuantity);
+                            return (
+                              <div key={partIdx} className="hud-row">
+                                <span className="item-subtext">{formatQuantity(partQuantity, part.snapshot.unit)} • {part.snapshot.name}</span>
+                                <span className="mono-val" style={{ fontSize: '0.8rem' }}>
+                                  <span className="danger">{money.format(partLine.cost)}</span> / <span className="bold">{money.format(partLine.price)}</span>
+                                </span>
+                              </div>
+                            );
+                          })}
+                          {pricing.labor?.map((line, laborIdx) => (
+                            <div key={`labor-${laborIdx}`} className="hud-row">
+                              <span className="item-subtext">
+                                {line.hours * qItem.quantity} hrs • {laborRates.roles.find(r => r.id === line.roleId)?.name ?? 'Missing role'} labor
+                              </span>
+                              <span className="item-subtext">in Labor</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {discountRowIdx === idx && (
+                        <div className="flex-row no-margin align-center" style={{ justifyContent: 'flex-end', padding: '0 16px 8px' }}>
+                          <span className="item-subtext">Line Discount</span>
+                          <DiscountInput 
+                            discount={qItem.discount} 
+                            onChange={discount => {
+                              const next = [...editedItems];
+                              next[idx - itemOffset] = { ...next[idx - itemOffset], discount };
+                              setEditedItems(next);
+                            }} 
+                          />
+                          {itemDiscount > 0 && <span className="mono-val cyan">-{money.format(itemDiscount)}</span>}
                         </div>
-                        <div className="mobile-min-width-total" style={{ textAlign: 'right', minWidth: '100px' }}>
-                           <div className="item-subtext">Total Price</div>
-                           <div className="mono-val bold">${itemPrice.toFixed(2)}</div>
+                      )}
+                      </React.Fragment>
+                    );
+                  })}
+                </div>
+              </Card>
+
+              <Card title="Summary" className="summary-card">
+                {optionSummary && (
+                  <>
+                    <div className="option-compare">
+                      <span className="item-subtext">Option</span>
+                      <span className="item-subtext">Price</span>
+                      <span className="item-subtext">Profit</span>
+                      <span className="item-subtext">Margin</span>
+                      {optionSummary.options.map(option => (
+                        <React.Fragment key={option.id}>
+                          <button
+                            className={`option-compare-name ${option.id === pricedOption?.id ? 'active' : ''}`}
+                            onClick={() => handleEditOption(option.id)}
+                          >
+                            {option.name || 'Unnamed option'}
+                          </button>
+                          <span className="mono-val bold">{money.format(option.totals.total)}</span>
+                          <span className="mono-val success">{money.format(option.totals.profit)}</span>
+                          <span className={`mono-val ${option.totals.margin < settings.marginFloor ? 'danger' : 'success'}`}>{option.totals.margin.toFixed(1)}%</span>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                    <div className="item-subtext" style={{ marginBottom: '0.75rem' }}>
+                      Below: {pricedOption?.name || 'Unnamed option'} with the shared lines.
+                    </div>
+                    <div className="divider" style={{ marginBottom: '0.75rem' }} />
+                  </>
+                )}
+                <div style={{ display: 'flex', width: '100%', marginBottom: '0.75rem' }}>
+                  <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
+                    <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Material Cost</div>
+                    <div className="mono-val danger" style={{ fontSize: '0.85rem' }}>{money.format(materials.cost)}</div>
+                  </div>
+                  <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
+                    <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Material Profit</div>
+                    <div className="mono-val success" style={{ fontSize: '0.85rem' }}>{money.format(materialProfit)}</div>
+                  </div>
+                  <div style={{ flex: 1, textAlign: 'center' }}>
+                    <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Material Total</div>
+                    <div className="mono-val bold" style={{ fontSize: '0.85rem' }}>{money.format(materials.price)}</div>
+                  </div>
+                </div>
+                <div className="divider" />
+                <div style={{ display: 'flex', width: '100%', marginBottom: '1rem', marginTop: '0.75rem' }}>
+                  <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
+                    <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Labor Cost</div>
+                    <div className="mono-val danger" style={{ fontSize: '0.85rem' }}>{money.format(laborCost)}</div>
+                  </div>
+                  <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
+                    <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Labor Profit</div>
+                    <div className="mono-val success" style={{ fontSize: '0.85rem' }}>{money.format(laborProfit)}</div>
+                  </div>
+                  <div style={{ flex: 1, textAlign: 'center' }}>
+                    <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Labor Total</div>
+                    <div className="mono-val bold" style={{ fontSize: '0.85rem' }}>{money.format(laborPrice)}</div>
+                  </div>
+                </div>
+                {labor.lines.length > 0 && (
+                  <div className="hud-stats" style={{ marginBottom: '1rem' }}>
+                    {labor.lines.map(line => (
+                      <div key={line.index} className="hud-row">
+                        <span className="item-subtext">{line.role.name} ({line.line.hours} hrs){line.index >= quoteInput.laborLines.length && ' • assembly'}</span>
+                        <span className="mono-val" style={{ fontSize: '0.8rem' }}>
+                          <span className="danger">{money.format(line.cost)}</span> / <span className="bold">{money.format(line.price)}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="divider" />
+                <div className="flex-row no-margin align-center" style={{ justifyContent: 'space-between', margin: '0.75rem 0' }}>
+                  <span className="item-subtext">Quote Discount</span>
+                  <DiscountInput discount={quoteDiscount} onChange={setQuoteDiscount} />
+                </div>
+                {(discountTotal > 0 || totals.adjustment !== 0 || totals.tripCharge !== 0 || totals.priceRounding !== 0 || totals.minimumCharge !== 0 || tax.lines.length > 0) && (
+                  <div className="hud-stats" style={{ marginBottom: '1rem' }}>
+                      {discountTotal > 0 && (
+                        <div className="hud-row">
+                          <span className="item-subtext">
+                            {quoteDiscount?.value
+                              ? `Discount (${formatDiscount(quoteDiscount, money.format)} on quote${materials.discount > 0 ? ' + line discounts' : ''})`
+                              : 'Discount (line discounts)'}
+                          </span>
+                          <span className="mono-val cyan">-{money.format(discountTotal)}</span>
+                        </div>
+                      )}
+                      {totals.adjustment !== 0 && (
+                        <div className="hud-row">
+                          <span className="item-subtext">Adjustment</span>
+                          <span className="mono-val">{totals.adjustment < 0 ? '-' : '+'}{money.format(Math.abs(totals.adjustment))}</span>
+                        </div>
+                      )}
+                      {totals.tripCharge !== 0 && (
+                        <div className="hud-row">
+                          <span className="item-subtext">Trip Charge</span>
+                          <span className="mono-val">+{money.format(totals.tripCharge)}</span>
+                        </div>
+                      )}
+                      {totals.priceRounding !== 0 && (
+                        <div className="hud-row">
+                          <span className="item-subtext">Rounding ({PRICE_ROUNDING_LABELS[quoteRounding.priceRule]})</span>
+                          <span className="mono-val">+{money.format(totals.priceRounding)}</span>
+                        </div>
+                      )}
+                      {totals.minimumCharge !== 0 && (
+                        <div className="hud-row">
+                          <span className="item-subtext">Minimum Charge (to {money.format(quoteJobCosts.minimumPrice)})</span>
+                          <span className="mono-val">+{money.format(totals.minimumCharge)}</span>
                         </div>
-                        <Button variant="danger" size="sm" className="btn-icon" onClick={() => setQuoteItems(quoteItems.filter((_, i) => i !== idx))}>✕</Button>
+                      )}
+                      <div className="hud-row">
+                        <span className="item-subtext">Subtotal (Pre-Tax)</span>
+                        <span className="mono-val">{money.format(totalPrice)}</span>
                       </div>
+                      {tax.lines.map((line, idx) => (
+                        <div key={idx} className="hud-row">
+                          <span className="item-subtext">{line.name} ({line.rate}% on {money.format(tax.taxableAmount)})</span>
+                          <span className="mono-val">{money.format(line.amount)}</span>
+                        </div>
+                      ))}
+                  </div>
+                )}
+                {(totals.burden !== 0 || totals.overhead !== 0) && (
+                  <div className="hud-stats" style={{ marginBottom: '1rem' }}>
+                    {totals.burden !== 0 && (
+                      <div className="hud-row">
+                        <span className="item-subtext">Payroll Burden ({quoteJobCosts.burdenPercent}% of wages)</span>
+                        <span className="mono-val danger">{money.format(totals.burden)}</span>
+                      </div>
+                    )}
+                    {totals.overhead !== 0 && (
+                      <div className="hud-row">
+                        <span className="item-subtext">
+                          Overhead ({quoteJobCosts.overheadBasis === 'hour'
+                            ? `${money.format(quoteJobCosts.overheadRate)}/hr × ${laborHours} hrs`
+                            : `${quoteJobCosts.overheadRate}% of job`})
+                        </span>
+                        <span className="mono-val danger">{money.format(totals.overhead)}</span>
+                      </div>
+                    )}
+                    <div className="hud-row">
+                      <span className="item-subtext">Total Cost</span>
+                      <span className="mono-val danger">{money.format(totals.cost)}</span>
                     </div>
-                  );
-                })}
-              </div>
-            </Card>
-
-            <Card title="Summary" className="summary-card">
-              <div style={{ display: 'flex', width: '100%', marginBottom: '0.75rem' }}>
-                <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
-                  <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Material Cost</div>
-                  <div className="mono-val danger" style={{ fontSize: '0.85rem' }}>${materials.cost.toFixed(2)}</div>
-                </div>
-                <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
-                  <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Material Profit</div>
-                  <div className="mono-val success" style={{ fontSize: '0.85rem' }}>${materialProfit.toFixed(2)}</div>
-                </div>
-                <div style={{ flex: 1, textAlign: 'center' }}>
-                  <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Material Total</div>
-                  <div className="mono-val bold" style={{ fontSize: '0.85rem' }}>${materials.price.toFixed(2)}</div>
-                </div>
-              </div>
-              <div className="divider" />
-              <div style={{ display: 'flex', width: '100%', marginBottom: '1rem', marginTop: '0.75rem' }}>
-                <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
-                  <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Labor Cost</div>
-                  <div className="mono-val danger" style={{ fontSize: '0.85rem' }}>${laborCost.toFixed(2)}</div>
-                </div>
-                <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
-                  <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Labor Profit</div>
-                  <div className="mono-val success" style={{ fontSize: '0.85rem' }}>${laborProfit.toFixed(2)}</div>
-                </div>
-                <div style={{ flex: 1, textAlign: 'center' }}>
-                  <div className="item-subtext" style={{ fontSize: '0.65rem' }}>Labor Total</div>
-                  <div className="mono-val bold" style={{ fontSize: '0.85rem' }}>${laborPrice.toFixed(2)}</div>
-                </div>
-              </div>
-              <div className="divider" />
-              <div style={{ display: 'flex', width: '100%', marginTop: '1rem' }}>
-                <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
-                  <div className="item-subtext">Net Profit</div>
-                  <div className="mono-val success bold" style={{ fontSize: '1.6rem' }}>${totalProfit.toFixed(2)}</div>
-                </div>
-                <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
-                  <div className="item-subtext">Margin</div>
-                  <div className="mono-val success bold" style={{ fontSize: '1.6rem' }}>{margin.toFixed(1)}%</div>
-                </div>
-                <div style={{ flex: 1, textAlign: 'center' }}>
-                  <div className="item-subtext">Total Amount</div>
-                  <div className="mono-val bold" style={{ fontSize: '1.6rem' }}>${totalPrice.toFixed(2)}</div>
-                </div>
-              </div>
-            </Card>
-
-            <Card title="Save or Export">
-              <div className="flex-row no-margin align-center">
-                <Input 
-                  placeholder="Quote Name..." 
-                  value={quoteName} 
-                  onChange={e => setQuoteName(e.target.value)} 
-                  containerClassName="flex-1 no-margin"
-                />
-                <Button onClick={handleSaveQuote} variant="primary">Save Quote</Button>
-              </div>
-              <Button 
-                variant="secondary" 
-                className="full-width" 
-                style={{ marginTop: '10px' }} 
-                onClick={() => {
-                  const materialDetails = quoteItems.map(qi => {
-                    const p = settings.persistentItems.find(i => i.id === qi.itemId);
-                    if (!p) return '';
-                    const cost = p.cost * qi.quantity;
-                    const markup = p.useCustomMarkup ? p.customMarkup : settings.globalMarkup;
-                    const price = cost * (1 + markup / 100);
-                    return `[${qi.quantity}x] ${p.name}\n    Cost: $${cost.toFixed(2)} | Profit: $${(price - cost).toFixed(2)} | Total: $${price.toFixed(2)}`;
-                  }).filter(Boolean).join('\n');
-
-                  const summary = [
-                    `--- QUOTE SUMMARY (${new Date().toLocaleDateString()}) ---`,
-                    `TOTAL AMOUNT: $${totalPrice.toFixed(2)}`,
-                    `NET PROFIT:   $${totalProfit.toFixed(2)} (${margin.toFixed(1)}%)`,
-                    '',
-                    `--- LABOR & TIME ---`,
-                    `Hours:        ${laborHours}`,
-                    `Labor Cost:   $${laborCost.toFixed(2)}`,
-                    `Labor Profit: $${laborProfit.toFixed(2)}`,
-                    `Labor Total:  $${laborPrice.toFixed(2)}`,
-                    '',
-                    `--- MATERIALS ---`,
-                    materialDetails || 'No materials added.',
-                    '',
-                    `Materials Cost:   $${materials.cost.toFixed(2)}`,
-                    `Materials Profit: $${materialProfit.toFixed(2)}`,
-                    `Materials Total:  $${materials.price.toFixed(2)}`,
-                  ].join('\n');
-
-                  navigator.clipboard.writeText(summary);
-                  addToast('Detailed summary copied to clipboard!', 'success');
-                }}
-              >
-                Export to Clipboard
-              </Button>
-            </Card>
-
-            <Card>
-              <Button 
-                variant="danger" 
-                className="full-width" 
-                onClick={handleClearQuote}
-              >
-                Clear Quote
-              </Button>
-            </Card>
-          </Ariakit.TabPanel>
-
-          <Ariakit.TabPanel tabId="history">
-            <Card title="Saved Quotes">
-              <div className="items-list">
-                {settings.savedQuotes.length === 0 && (
-                  <div className="text-dim" style={{ textAlign: 'center', padding: '2rem' }}>No saved quotes yet.</div>
+                  </div>
+                )}
+                <div className="divider" />
+                <div style={{ display: 'flex', width: '100%', marginTop: '1rem' }}>
+                  <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
+                    <div className="item-subtext">Net Profit</div>
+                    <div className="mono-val success bold" style={{ fontSize: '1.6rem' }}>{money.format(totalProfit)}</div>
+                  </div>
+                  <div style={{ flex: 1, textAlign: 'center', borderRight: '1px solid rgba(255,255,255,0.05)' }}>
+                    <div className="item-subtext">Margin</div>
+                    <div className={`mono-val ${isBelowMarginFloor ? 'danger' : 'success'} bold`} style={{ fontSize: '1.6rem' }}>{margin.toFixed(1)}%</div>
+                  </div>
+                  <div style={{ flex: 1, textAlign: 'center' }}>
+                    <div className="item-subtext">Total Amount</div>
+                    <div className="mono-val bold" style={{ fontSize: '1.6rem' }}>{money.format(grandTotal)}</div>
+                  </div>
+                </div>
+                {isBelowMarginFloor && (
+                  <div className="margin-warning">
+                    Discounts bring margin to {margin.toFixed(1)}%, below the {settings.marginFloor}% floor.
+                  </div>
                 )}
-                {settings.savedQuotes.map(quote => (
-                  <div 
-                    key={quote.id} 
-                    className="item-row align-center" 
-                    style={{ cursor: 'pointer' }}
-                    onClick={() => {
-                      setQuoteItems(quote.items);
-                      setLaborHours(quote.laborHours);
-                      setQuoteName(quote.name);
-                      addToast(`Loaded quote: ${quote.name}`, 'success');
+              </Card>
+
+              <TargetSolver 
+                input={quoteInput} 
+                onApply={next => {
+                  setOverrides(next);
+                  addToast('Quote pricing updated.', 'success');
+                }} 
+              />
+
+              <Card 
+                title="Customer"
+                actions={
+                  linkedCustomer ? (
+                    <Button variant="secondary" size="sm" onClick={() => setCustomerId(null)}>Unlink</Button>
+                  ) : customer.name.trim() && (
+                    <Button 
+                      variant="secondary" 
+                      size="sm" 
+                      onClick={() => {
+                        setCustomerId(handleAddCustomer(customer).id);
+                        addToast(`Saved ${customer.name} as a customer.`, 'success');
+                      }}
+                    >
+                      Save as Customer
+                    </Button>
+                  )
+                }
+              >
+                {linkedCustomer ? (
+                  <div className="item-subtext" style={{ marginBottom: '1rem' }}>
+                    Linked to <span className="cyan bold">{linkedCustomer.name || 'Unnamed customer'}</span>. Changes here apply to this quote only.
+                  </div>
+                ) : (
+                  <Ariakit.ComboboxProvider 
+                    value={customerSearch}
+                    setValue={(val) => {
+                      const selected = settings.customers.find(c => c.name === val);
+                      if (selected) {
+                        handleSelectCustomer(selected);
+                        setCustomerSearch('');
+                      } else {
+                        setCustomerSearch(val);
+                      }
                     }}
                   >
-                    <div className="item-name-col">
-                      <span className="item-name">{quote.name}</span>
-                      <span className="item-subtext">{quote.date} • {quote.laborHours} hrs • {quote.items.length} items</span>
+                    <div className="input-container" style={{ marginBottom: '1rem' }}>
+                      <Ariakit.Combobox 
+                        placeholder="Find Saved Customer..." 
+                        className="select-trigger" 
+                      />
                     </div>
-                    <div className="item-meta-col">
-                      <div style={{ textAlign: 'right', marginRight: '1rem' }}>
-                        <div className="item-subtext">Total Amount</div>
-                        <div className="mono-val bold">${quote.totalPrice.toFixed(2)}</div>
-                      </div>
+                    <Ariakit.ComboboxPopover gutter={4} sameWidth className="select-popover">
+                      {filteredCustomers.map((c, idx) => (
+                        <React.Fragment key={c.id}>
+                          <Ariakit.ComboboxItem 
+                            value={c.name} 
+                            className="combobox-item"
+                          >
+                            {c.name}{c.phone && ` (${c.phone})`}
+                          </Ariakit.ComboboxItem>
+                          {idx < filteredCustomers.length - 1 && <Ariakit.ComboboxSeparator className="combobox-separator" />}
+                        </React.Fragment>
+                      ))}
+                      {filteredCustomers.length === 0 && <div className="combobox-item">No customers found</div>}
+                    </Ariakit.ComboboxPopover>
+                  </Ariakit.ComboboxProvider>
+                )}
+                <div className="hud-grid">
+                  <Input label="Name" value={customer.name} onChange={e => updateCustomer({ name: e.target.value })} />
+                  <Input label="Phone" type="tel" value={customer.phone} onChange={e => updateCustomer({ phone: e.target.value })} />
+                </div>
+                <Input label="Email" type="email" value={customer.email} onChange={e => updateCustomer({ email: e.target.value })} />
+                <TextArea
+                  label="Address"
+                  rows={2}
+                  value={customer.address}
+                  onChange={e => updateCustomer({ address: e.target.value })}
+                  containerClassName="no-margin"
+                />
+              </Card>
+
+              <Card title="Save or Export">
+                <div className="flex-row no-margin align-center">
+                  <Input 
+                    placeholder="Quote Name..." 
+                    value={quoteName} 
+                    onChange={e => setQuoteName(e.target.value)} 
+                    containerClassName="flex-1 no-margin"
+                  />
+                  <Button onClick={handleSaveQuote} variant="primary">Save Quote</Button>
+                </div>
+                <Button 
+                  variant="secondary" 
+                  className="full-width" 
+                  style={{ marginTop: '10px' }} 
+                  onClick={() => {
+                    const materialDetails = pricedLines.map(({ item: qi, pricing: p, cost, price, discount }) => {
+                      const discountNote = discount > 0 && qi.discount ? ` | Discount: -${money.format(discount)} (${formatDiscount(qi.discount, money.format)})` : '';
+                      const partDetails = (p.parts ?? []).map(part => `\n      - ${formatQuantity(part.quantity * qi.quantity, part.snapshot.unit)} ${part.snapshot.name}`).join('');
+                      return `[${formatQuantity(qi.quantity, p.unit)}] ${p.name}\n    Cost: ${money.format(cost)} | Profit: ${money.format(price - cost)}${discountNote} | Total: ${money.format(price)}${partDetails}`;
+                    }).join('\n');
+
+                    const optionDetails = (optionSummary?.options ?? []).flatMap(option => [
+                      `${option.name}: ${money.format(option.totals.total)} | Profit: ${money.format(option.totals.profit)} (${option.totals.margin.toFixed(1)}%)`,
+                      ...option.lines.map(line => `    [${formatQuantity(line.item.quantity, line.pricing.unit)}] ${line.pricing.name}: ${money.format(line.price)}`),
+                      ...option.laborLines.map(line => `    [${line.line.hours}h] ${line.role.name}: ${money.format(line.price)}`),
+                    ]);
+
+                    const summary = [
+                      `--- QUOTE SUMMARY (${new Date().toLocaleDateString()}) ---`,
+                      ...(pricedOption ? [`OPTION:       ${pricedOption.name} (with shared lines)`] : []),
+                      `TOTAL AMOUNT: ${money.format(grandTotal)}`,
+                      ...(discountTotal > 0 ? [`DISCOUNT:     -${money.format(discountTotal)}`] : []),
+                      ...(totals.adjustment !== 0 ? [`ADJUSTMENT:   ${totals.adjustment < 0 ? '-' : '+'}${money.format(Math.abs(totals.adjustment))}`] : []),
+                      ...(totals.tripCharge !== 0 ? [`TRIP CHARGE:  +${money.format(totals.tripCharge)}`] : []),
+                      ...(totals.priceRounding !== 0 ? [`ROUNDING:     +${money.format(totals.priceRounding)}`] : []),
+                      ...(totals.minimumCharge !== 0 ? [`MINIMUM:      +${money.format(totals.minimumCharge)} (to ${money.format(quoteJobCosts.minimumPrice)})`] : []),
+                      ...(tax.lines.length > 0 ? [`SUBTOTAL:     ${money.format(totalPrice)}`, `TAX:          ${money.format(tax.total)}`] : []),
+                      ...(totals.burden !== 0 ? [`BURDEN:       ${money.format(totals.burden)}`] : []),
+                      ...(totals.overhead !== 0 ? [`OVERHEAD:     ${money.format(totals.overhead)}`] : []),
+                      ...(totals.burden !== 0 || totals.overhead !== 0 ? [`TOTAL COST:   ${money.format(totals.cost)}`] : []),
+                      `NET PROFIT:   ${money.format(totalProfit)} (${margin.toFixed(1)}%)`,
+                      '',
+                      `--- LABOR & TIME ---`,
+                      ...labor.lines.map(line => `[${line.line.hours}h] ${line.role.name}\n    Cost: ${money.format(line.cost)} | Profit: ${money.format(line.price - line.cost)} | Total: ${money.format(line.price)}`),
+                      `Hours:        ${laborHours}`,
+                      `Labor Cost:   ${money.format(laborCost)}`,
+                      `Labor Profit: ${money.format(laborProfit)}`,
+                      `Labor Total:  ${money.format(laborPrice)}`,
+                      '',
+                      `--- MATERIALS ---`,
+                      materialDetails || 'No materials added.',
+                      '',
+                      `Materials Cost:   ${money.format(materials.cost)}`,
+                      `Materials Profit: ${money.format(materialProfit)}`,
+                      `Materials Total:  ${money.format(materials.price)}`,
+                      ...(quoteDiscountAmount > 0 && quoteDiscount ? [
+                        '',
+                        `--- DISCOUNT ---`,
+                        `Quote Discount: -${money.format(quoteDiscountAmount)} (${formatDiscount(quoteDiscount, money.format)})`,
+                      ] : []),
+                      ...(tax.lines.length > 0 ? [
+                        '',
+                        `--- TAX ---`,
+                        `Taxable Amount: ${money.format(tax.taxableAmount)}`,
+                        ...tax.lines.map(line => `${line.name} (${line.rate}%): ${money.format(line.amount)}`),
+                        `Total Tax:      ${money.format(tax.total)}`,
+                      ] : []),
+                      ...(optionDetails.length > 0 ? [
+                        '',
+                        `--- OPTIONS ---`,
+                        ...optionDetails,
+                      ] : []),
+                    ].join('\n');
+
+                    navigator.clipboard.writeText(summary);
+                    addToast('Detailed summary copied to clipboard!', 'success');
+                  }}
+                >
+                  Export to Clipboard
+                </Button>
+                <Button 
+                  variant="secondary" 
+                  className="full-width" 
+                  style={{ marginTop: '10px' }} 
+                  onClick={() => setShowDocument(true)}
+                >
+                  Quote Document
+                </Button>
+                <Button 
+                  variant="secondary" 
+                  className="full-width" 
+                  style={{ marginTop: '10px' }} 
+                  onClick={() => handleCopyShareLink(snapshotWorkingQuote())}
+                >
+                  Copy Share Link
+                </Button>
+              </Card>
+
+              <Card>
+                <Button 
+                  variant="danger" 
+                  className="full-width" 
+                  onClick={handleClearQuote}
+                >
+                  Clear Quote
+                </Button>
+              </Card>
+            </Ariakit.TabPanel>
+
+            <Ariakit.TabPanel tabId="history">
+              <Card title="Saved Quotes">
+                <div className="flex-row no-margin" style={{ marginBottom: '1rem' }}>
+                  <Input 
+                    label="Search"
+                    placeholder="Quote or customer name..." 
+                    value={historyQuery.search} 
+                    onChange={e => updateHistoryQuery({ search: e.target.value })} 
+                    containerClassName="flex-1"
+                  />
+                  <Input label="From" type="date" value={historyQuery.from} onChange={e => updateHistoryQuery({ from: e.target.value })} />
+                  <Input label="To" type="date" value={historyQuery.to} onChange={e => updateHistoryQuery({ to: e.target.value })} />
+                </div>
+                <div className="card-actions" style={{ marginBottom: '0.5rem', flexWrap: 'wrap' }}>
+                  {(['all', ...QUOTE_STATUSES] as const).map(status => (
+                    <Button 
+                      key={status} 
+                      variant={historyQuery.status === status ? 'primary' : 'secondary'} 
+                      size="sm" 
+                      onClick={() => updateHistoryQuery({ status })}
+                    >
+                      {status === 'all' ? 'All' : STATUS_LABELS[status]} ({status === 'all' ? settings.savedQuotes.length : settings.savedQuotes.filter(q => q.status === status).length})
+                    </Button>
+                  ))}
+                </div>
+                <div className="flex-row no-margin align-center" style={{ marginBottom: '1rem', justifyContent: 'space-between' }}>
+                  <div className="card-actions">
+                    <span className="field-label no-margin">Sort</span>
+                    {HISTORY_SORTS.map(sort => (
                       <Button 
-                        variant="danger" 
+                        key={sort.id} 
+                        variant={historyQuery.sort === sort.id ? 'primary' : 'secondary'} 
                         size="sm" 
-                        className="btn-icon" 
-                        onClick={(e) => {
-                          e.stopPropagation(); // Don't load the quote when deleting
-                          updateSettings({ savedQuotes: settings.savedQuotes.filter(q => q.id !== quote.id) });
-                        }}
+                        onClick={() => handleSortHistory(sort.id)}
                       >
-                        ✕
+                        {sort.label}{historyQuery.sort === sort.id && (historyQuery.direction === 'asc' ? ' ↑' : ' ↓')}
                       </Button>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </Card>
-          </Ariakit.TabPanel>
-
-          <Ariakit.TabPanel tabId="settings">
-            <Card 
-              title="Global Pricing & Labor" 
-              actions={<Button variant="secondary" size="sm" onClick={() => updateSettings({ wages: [...settings.wages, 0] })}>+ Add Wage</Button>}
-            >
-              <div className="hud-grid grid-divider">
-                <div className="pricing-left">
-                  <div>
-                    <Input 
-                      label="Target Hourly Rate" 
-                      type="number" 
-                      className="w-3-digit"
-                      prefix="$"
-                      value={settings.targetHourly} 
-                      onChange={e => updateSettings({ targetHourly: Number(e.target.value) })}
-                    />
-                    <Input 
-                      label="Global Markup (%)" 
-                      type="number" 
-                      className="w-3-digit"
-                      value={settings.globalMarkup} 
-                      onChange={e => updateSettings({ globalMarkup: Number(e.target.value) })}
-                    />
+                    ))}
                   </div>
+                  <span className="item-subtext">{historyResults.length} of {settings.savedQuotes.length} quotes</span>
                 </div>
-                <div className="labor-right">
-                  <div>
-                    <div className="field-group">
-                      <label className="field-label">Labor Wages</label>
-                      <div className="items-list">
-                        {settings.wages.map((wage, idx) => (
-                          <div key={idx} className="flex-row no-margin align-center" style={{ gap: '8px', marginBottom: '8px' }}>
-                            <Input
-                              type="number"
-                              value={wage}
-                              className="w-3-digit"
-                              prefix="$"
-                              onChange={e => {
-                                const next = [...settings.wages];
-                                next[idx] = Number(e.target.value);
-                                updateSettings({ wages: next });
+                <div className="items-list">
+                  {historyResults.length === 0 && (
+                    <div className="text-dim" style={{ textAlign: 'center', padding: '2rem' }}>
+                      {settings.savedQuotes.length === 0 ? 'No saved quotes yet.' : 'No quotes match these filters.'}
+                    </div>
+                  )}
+                  {historyPageEntries.map(({ quote, margin: quoteMargin }) => {
+                    const followUpDue = isFollowUpDue(quote, today);
+                    const pastExpiry = isPastExpiry(quote, today);
+                    return (
+                      <div key={quote.id}>
+                        <div 
+                          className={`item-row align-center ${pastExpiry ? 'quote-expired' : followUpDue ? 'quote-follow-up' : ''}`} 
+                          style={{ cursor: 'pointer' }}
+                          onClick={() => setViewingQuoteId(quote.id)}
+                        >
+                          <div className="item-name-col">
+                            <span className="item-name">{quote.name} <StatusBadge status={quote.status} /></span>
+                            <span className="item-subtext">
+                              {quote.date} • {quote.laborLines.reduce((sum, line) => sum + line.hours, 0)} hrs • {quote.items.length} items{quote.customer?.name && ` • ${quote.customer.name}`}
+                              {quote.pricingProfileId && ` • ${settings.pricingProfiles.find(p => p.id === quote.pricingProfileId)?.name ?? 'Deleted profile'}`}
+                              {quote.options && quote.options.length > 0 && ` • ${quote.chosenOptionId ? `${pricedOptionOf(quote)?.name} chosen` : `${quote.options.length} options`}`}
+                            </span>
+                            {pastExpiry && <span className="item-subtext danger">Expired {quote.expiresOn} • still {STATUS_LABELS[quote.status].toLowerCase()}</span>}
+                            {!pastExpiry && followUpDue && <span className="item-subtext quote-follow-up-text">Follow up due {quote.followUpOn}</span>}
+                          </div>
+                          <div className="item-meta-col">
+                            <div style={{ textAlign: 'right', marginRight: '1rem' }}>
+                              <div className="item-subtext">Total • {quoteMargin.toFixed(1)}%</div>
+                              <div className="mono-val bold">{money.format(quote.totalPrice)}</div>
+                            </div>
+                            <Button 
+                              variant="secondary" 
+                              size="sm" 
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDuplicateQuote(quote);
                               }}
-                              style={{ marginBottom: 0 }}
-                            />
-                            <Button variant="danger" size="sm" className="btn-icon" onClick={() => updateSettings({ wages: settings.wages.filter((_, i) => i !== idx) })}>✕</Button>
+                            >
+                              Duplicate
+                            </Button>
+                            <Button 
+                              variant={expandedQuoteId === quote.id ? 'primary' : 'secondary'} 
+                              size="sm" 
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setExpandedQuoteId(expandedQuoteId === quote.id ? null : quote.id);
+                              }}
+                            >
+                              Status
+                            </Button>
+                            {(quote.status === 'accepted' || quote.actuals) && (
+                              <Button 
+                                variant={costingQuoteId === quote.id ? 'primary' : 'secondary'} 
+                                size="sm" 
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setCostingQuoteId(costingQuoteId === quote.id ? null : quote.id);
+                                }}
+                              >
+                                Job Costing
+                              </Button>
+                            )}
+                            <Button 
+                              variant="danger" 
+                              size="sm" 
+                              className="btn-icon" 
+                              onClick={(e) => {
+                                e.stopPropagation(); // Don't open the quote when deleting
+                                handleDeleteSavedQuote(quote);
+                              }}
+                            >
+                              ✕
+                            </Button>
                           </div>
-                        ))}
+                        </div>
+                        {expandedQuoteId === quote.id && (
+                          <QuoteLifecycle quote={quote} onChange={updateSavedQuote} />
+                        )}
+                        {costingQuoteId === quote.id && (
+                          <JobCosting quote={quote} onChange={updateSavedQuote} />
+                        )}
                       </div>
+                    );
+                  })}
+                </div>
+                {historyPageCount > 1 && (
+                  <div className="flex-row no-margin align-center" style={{ marginTop: '1rem', justifyContent: 'space-between' }}>
+                    <Button variant="secondary" size="sm" disabled={currentHistoryPage === 0} onClick={() => setHistoryPage(currentHistoryPage - 1)}>Prev</Button>
+                    <span className="item-subtext">Page {currentHistoryPage + 1} of {historyPageCount}</span>
+                    <Button variant="secondary" size="sm" disabled={currentHistoryPage >= historyPageCount - 1} onClick={() => setHistoryPage(currentHistoryPage + 1)}>Next</Button>
+                  </div>
+                )}
+              </Card>
+              <CostChangeReport
+                items={settings.persistentItems}
+                quotes={settings.savedQuotes}
+                marginFloor={settings.marginFloor}
+                onOpenQuote={quote => setViewingQuoteId(quote.id)}
+              />
+              <EstimateAccuracy
+                quotes={settings.savedQuotes}
+                items={settings.persistentItems}
+                profiles={settings.pricingProfiles}
+              />
+            </Ariakit.TabPanel>
+
+            <Ariakit.TabPanel tabId="customers">
+              <CustomerDirectory
+                customers={settings.customers}
+                quotes={settings.savedQuotes}
+                onAdd={() => handleAddCustomer()}
+                onUpdate={updateCustomerRecord}
+                onDelete={handleDeleteCustomer}
+                onOpenQuote={quote => setViewingQuoteId(quote.id)}
+              />
+            </Ariakit.TabPanel>
+
+            <Ariakit.TabPanel tabId="settings">
+              <Card title="Global Pricing">
+                <div className="hud-grid grid-divider">
+                  <div className="pricing-left">
+                    <div>
+                      <Input 
+                        label="Target Hourly Rate" 
+                        type="number" 
+                        className="w-3-digit"
+                        prefix={money.symbol}
+                        value={settings.targetHourly} 
+                        onChange={e => updateSettings({ targetHourly: Number(e.target.value) })}
+                      />
+                      <Input 
+                        label="Global Markup (%)" 
+                        type="number" 
+                        className="w-3-digit"
+                        value={settings.globalMarkup} 
+                        onChange={e => updateSettings({ globalMarkup: Number(e.target.value) })}
+                      />
                     </div>
                   </div>
-                </div>              </div>
-            </Card>
-
-            <Card title="Item Library" actions={<Button variant="secondary" size="sm" onClick={handleAddPersistentItem}>+ Add Item</Button>}>
-              <div className="items-list">
-                {settings.persistentItems.map(item => (
-                  <div key={item.id} className="card" style={{ padding: '16px', background: 'rgba(255,255,255,0.02)', marginBottom: '1.5rem' }}>
-                    <div className="flex-row align-center" style={{ marginBottom: '24px', gap: '10px' }}>
-                      <div style={{ flex: 1 }}>
-                        <Input 
-                          placeholder="Item Name" 
-                          value={item.name} 
-                          onChange={e => handleUpdatePersistentItem(item.id, { name: e.target.value })}
-                          containerClassName="no-margin"
-                        />
-                      </div>
-                      <Button variant="danger" size="sm" className="btn-icon" onClick={() => handleDeletePersistentItem(item.id)}>✕</Button>
+                  <div className="labor-right">
+                    <div>
+                      <Input 
+                        label="Margin Floor (%)" 
+                        type="number" 
+                        className="w-3-digit"
+                        value={settings.marginFloor} 
+                        onChange={e => updateSettings({ marginFloor: Number(e.target.value) })}
+                      />
                     </div>
-                    <div className="hud-grid">
+                    <div>
                       <Input 
-                        label="Cost" 
+                        label="Quote Valid For (days)" 
                         type="number" 
-                        prefix="$"
-                        value={item.cost || ''} 
-                        onChange={e => handleUpdatePersistentItem(item.id, { cost: Number(e.target.value) })}
+                        className="w-3-digit"
+                        value={settings.quoteValidityDays} 
+                        onChange={e => updateSettings({ quoteValidityDays: Number(e.target.value) })}
                       />
-                      <div className="field-group">
-                        <Ariakit.CheckboxProvider 
-                          value={item.useCustomMarkup} 
-                          setValue={val => handleUpdatePersistentItem(item.id, { useCustomMarkup: !!val })}
-                        >
-                          <Ariakit.Checkbox render={<label className="checkbox-row" />}>
-                            <Ariakit.CheckboxCheck className="checkbox" />
-                            <span className="field-label" style={{ marginBottom: 0 }}>Custom Markup</span>
-                          </Ariakit.Checkbox>
-                        </Ariakit.CheckboxProvider>
-                        {item.useCustomMarkup ? (
-                          <input 
-                            className="input-field" 
-                            type="number" 
-                            value={item.customMarkup} 
-                            onChange={e => handleUpdatePersistentItem(item.id, { customMarkup: Number(e.target.value) })}
-                          />
-                        ) : (
-                          <input className="input-field input-dimmed" value={`${settings.globalMarkup}% (Global)`} disabled />
-                        )}
-                      </div>
                     </div>
                   </div>
+                </div>
+              </Card>
+
+              <MarkupRulesCard
+                rules={settings.markupRules}
+                categories={libraryCategories}
+                onChange={markupRules => updateSettings({ markupRules })}
+              />
+
+              <Card title="Job Costs & Minimums">
+                <div className="hud-grid grid-divider">
+                  <div className="pricing-left">
+                    <div>
+                      <Input
+                        label="Payroll Burden (%)"
+                        type="number"
+                        className="w-3-digit"
+                        value={settings.jobCosts.burdenPercent}
+                        onChange={e => updateJobCosts({ burdenPercent: Number(e.target.value) })}
+                      />
+                      <Input
+                        label={settings.jobCosts.overheadBasis === 'hour' ? 'Overhead per Labor Hour' : 'Overhead (% of Job)'}
+                        type="number"
+                        className="w-3-digit"
+                        prefix={settings.jobCosts.overheadBasis === 'hour' ? money.symbol : undefined}
+                        value={settings.jobCosts.overheadRate}
+                        onChange={e => updateJobCosts({ overheadRate: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="card-actions" style={{ marginBottom: '1rem' }}>
+                      <Button variant={settings.jobCosts.overheadBasis === 'hour' ? 'primary' : 'secondary'} size="sm" onClick={() => updateJobCosts({ overheadBasis: 'hour' })}>Per Labor Hour</Button>
+                      <Button variant={settings.jobCosts.overheadBasis === 'percent' ? 'primary' : 'secondary'} size="sm" onClick={() => updateJobCosts({ overheadBasis: 'percent' })}>% of Job</Button>
+                    </div>
+                  </div>
+                  <div className="labor-right">
+                    <div>
+                      <Input
+                        label="Trip Charge"
+                        type="number"
+                        className="w-3-digit"
+                        prefix={money.symbol}
+                        value={settings.jobCosts.tripCharge}
+                        onChange={e => updateJobCosts({ tripCharge: Number(e.target.value) })}
+                      />
+                      <Input
+                        label="Minimum Job Price"
+                        type="number"
+                        className="w-3-digit"
+                        prefix={money.symbol}
+                        value={settings.jobCosts.minimumPrice}
+                        onChange={e => updateJobCosts({ minimumPrice: Number(e.target.value) })}
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="text-dim">
+                  Burden (payroll taxes, insurance) and overhead (vehicles, shop) count as cost, so profit and margin are net. The trip charge and minimum are billed to the customer before tax.
+                </div>
+              </Card>
+
+              <Card title="Currency & Rounding">
+                <div className="hud-grid">
+                  <Input
+                    label="Currency Code"
+                    placeholder="USD"
+                    value={settings.money.currency}
+                    onChange={e => updateMoney({ currency: e.target.value.toUpperCase() })}
+                  />
+                  <Input
+                    label="Locale"
+                    placeholder="en-US"
+                    value={settings.money.locale}
+                    onChange={e => updateMoney({ locale: e.target.value })}
+                  />
+                </div>
+                <div className={isSupportedMoneyFormat(settings.money) ? 'text-dim' : 'danger'} style={{ marginBottom: '1rem' }}>
+                  {isSupportedMoneyFormat(settings.money)
+                    ? `Amounts look like ${money.format(1234.5)}.`
+                    : `Unknown currency or locale; amounts use ${money.format(1234.5)} until it is fixed.`}
+                </div>
+                <div className="field-label">Round to the Cent</div>
+                <div className="card-actions" style={{ marginBottom: '1rem' }}>
+                  <Button variant={settings.money.rounding.mode === 'line' ? 'primary' : 'secondary'} size="sm" onClick={() => updateRounding({ mode: 'line' })}>Every Line</Button>
+                  <Button variant={settings.money.rounding.mode === 'total' ? 'primary' : 'secondary'} size="sm" onClick={() => updateRounding({ mode: 'total' })}>Totals Only</Button>
+                </div>
+                <div className="field-label">Round Prices Up</div>
+                <div className="card-actions" style={{ marginBottom: '1rem' }}>
+                  <Button variant={settings.money.rounding.priceScope === 'none' ? 'primary' : 'secondary'} size="sm" onClick={() => updateRounding({ priceScope: 'none' })}>Off</Button>
+                  <Button variant={settings.money.rounding.priceScope === 'line' ? 'primary' : 'secondary'} size="sm" onClick={() => updateRounding({ priceScope: 'line' })}>Each Line</Button>
+                  <Button variant={settings.money.rounding.priceScope === 'total' ? 'primary' : 'secondary'} size="sm" onClick={() => updateRounding({ priceScope: 'total' })}>Quote Total</Button>
+                </div>
+                {settings.money.rounding.priceScope !== 'none' && (
+                  <div className="card-actions">
+                    {(Object.keys(PRICE_ROUNDING_LABELS) as PriceRoundingRule[]).map(rule => (
+                      <Button key={rule} variant={settings.money.rounding.priceRule === rule ? 'primary' : 'secondary'} size="sm" onClick={() => updateRounding({ priceRule: rule })}>
+                        {PRICE_ROUNDING_LABELS[rule]}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                <div className="text-dim" style={{ marginTop: '0.5rem' }}>
+                  Totals are always in whole cents. Quote total rounding applies before tax.
+                </div>
+              </Card>
+
+              <Card 
+                title="Labor Roles" 
+                actions={
+                  <Button 
+                    variant="secondary" 
+                    size="sm" 
+                    onClick={() => updateSettings({ laborRoles: [...settings.laborRoles, { id: generateId(), name: 'New Role', wage: 0, billRate: null }] })}
+                  >
+                    + Add Role
+                  </Button>
+                }
+              >
+                <div className="items-list">
+                  {settings.laborRoles.length === 0 && (
+                    <div className="text-dim">No labor roles. Add one to put labor on quotes.</div>
+                  )}
+                  {settings.laborRoles.map(role => (
+                    <div key={role.id} className="flex-row no-margin" style={{ marginBottom: '8px' }}>
+                      <Input
+                        label="Role"
+                        value={role.name}
+                        onChange={e => updateLaborRole(role.id, { name: e.target.value })}
+                        containerClassName="flex-1"
+                      />
+                      <Input
+                        label="Wage"
+                        type="number"
+                        className="w-3-digit"
+                        prefix={money.symbol}
+                        value={role.wage}
+                        onChange={e => updateLaborRole(role.id, { wage: Number(e.target.value) })}
+                      />
+                      <Input
+                        label="Bill Rate"
+                        type="number"
+                        className="w-3-digit"
+                        prefix={money.symbol}
+                        placeholder={String(settings.targetHourly)}
+                        value={role.billRate ?? ''}
+                        onChange={e => updateLaborRole(role.id, { billRate: e.target.value === '' ? null : Number(e.target.value) })}
+                      />
+                      <Button variant="danger" size="sm" className="btn-icon" style={{ marginBottom: '2px' }} onClick={() => handleDeleteLaborRole(role)}>✕</Button>
+                    </div>
+                  ))}
+                </div>
+                <div className="text-dim" style={{ marginTop: '0.5rem' }}>
+                  Leave Bill Rate blank to charge the target hourly rate.
+                </div>
+              </Card>
+
+              <Card
+                title="Pricing Profiles"
+                actions={<Button variant="secondary" size="sm" onClick={handleAddPricingProfile}>+ Add Profile</Button>}
+              >
+                {settings.pricingProfiles.length === 0 && (
+                  <div className="text-dim">
+                    No profiles. Add one to price some quotes, such as commercial work, with their own rates, markup and wages.
+                  </div>
+                )}
+                {settings.pricingProfiles.map(profile => (
+                  <PricingProfileCard
+                    key={profile.id}
+                    profile={profile}
+                    roles={settings.laborRoles}
+                    onUpdate={updates => updatePricingProfile(profile.id, updates)}
+                    onDelete={() => handleDeletePricingProfile(profile.id)}
+                  />
                 ))}
-              </div>
-            </Card>
-
-            <Card title="Data Management">
-              <div className="text-dim" style={{ marginBottom: '1rem' }}>
-                Backup or transfer your item library and pricing settings via the clipboard.
-              </div>
-              <div className="flex-row no-margin">
-                <Button 
-                  variant="secondary" 
-                  className="full-width" 
-                  onClick={() => {
-                    const data = JSON.stringify(settings, null, 2);
-                    navigator.clipboard.writeText(data);
-                    addToast('Settings copied to clipboard!', 'success');
-                  }}
-                >
-                  Export Settings
-                </Button>
-                <Button 
-                  variant="secondary" 
-                  className="full-width" 
-                  onClick={async () => {
-                    try {
-                      const text = await navigator.clipboard.readText();
-                      const parsed = JSON.parse(text);
-                      if (parsed && typeof parsed === 'object' && 'targetHourly' in parsed) {
-                        if (confirm('Importing will overwrite your current settings and item library. Continue?')) {
-                          setSettings(parsed);
-                          addToast('Settings imported successfully!', 'success');
-                        }
-                      } else {
-                        addToast('Invalid settings data in clipboard.', 'error');
-                      }
-                    } catch (err) {
-                      addToast('Failed to read from clipboard.', 'error');
-                    }
-                  }}
+              </Card>
+
+              <Card 
+                title="Sales Tax" 
+                actions={<Button variant="secondary" size="sm" onClick={() => updateTax({ rates: [...settings.tax.rates, { id: generateId(), name: 'Sales Tax', rate: 0 }] })}>+ Add Rate</Button>}
+              >
+                <div className="items-list" style={{ marginBottom: '1rem' }}>
+                  {settings.tax.rates.length === 0 && (
+                    <div className="text-dim">No tax rates. Quotes are calculated without tax.</div>
+                  )}
+                  {settings.tax.rates.map(rate => (
+                    <div key={rate.id} className="flex-row no-margin align-center">
+                      <Input
+                        placeholder="Rate Name"
+                        value={rate.name}
+                        onChange={e => updateTaxRate(rate.id, { name: e.target.value })}
+                        containerClassName="flex-1"
+                      />
+                      <Input
+                        type="number"
+                        className="w-3-digit"
+                        value={rate.rate}
+                        onChange={e => updateTaxRate(rate.id, { rate: Number(e.target.value) })}
+                      />
+                      <span className="text-dim">%</span>
+                      <Button variant="danger" size="sm" className="btn-icon" onClick={() => updateTax({ rates: settings.tax.rates.filter(r => r.id !== rate.id) })}>✕</Button>
+                    </div>
+                  ))}
+                </div>
+                <Ariakit.CheckboxProvider 
+                  value={settings.tax.taxLabor} 
+                  setValue={val => updateTax({ taxLabor: !!val })}
                 >
-                  Import Settings
-                </Button>
-              </div>
-            </Card>
-          </Ariakit.TabPanel>
-        </main>
-      </Ariakit.TabProvider>
-
-      <div className="toast-container">
-        {toasts.map(toast => (
-          <Toast key={toast.id} message={toast.message} type={toast.type} />
-        ))}
+                  <Ariakit.Checkbox render={<label className="checkbox-row" />}>
+                    <Ariakit.CheckboxCheck className="checkbox" />
+                    <span className="field-label" style={{ marginBottom: 0 }}>Tax Labor</span>
+                  </Ariakit.Checkbox>
+                </Ariakit.CheckboxProvider>
+              </Card>
+
+              <Card 
+                title="Item Library" 
+                actions={
+                  <>
+                    <label className="btn btn-secondary btn-sm">
+                      Import CSV
+                      <input
+                        type="file"
+                        accept=".csv,text/csv"
+                        hidden
+                        onChange={e => {
+                          handleLibraryCsvUpload(e.target.files?.[0]);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                    <Button variant="secondary" size="sm" onClick={handleExportLibraryCsv} disabled={settings.persistentItems.length === 0}>Export CSV</Button>
+                    <Button variant="secondary" size="sm" onClick={handleAddPersistentItem}>+ Add Item</Button>
+                  </>
+                }
+              >
+                {libraryImport && (
+                  <LibraryImport
+                    fileName={libraryImport.fileName}
+                    rows={libraryImport.rows}
+                    items={settings.persistentItems}
+                    onApply={handleApplyLibraryImport}
+                    onCancel={() => setLibraryImport(null)}
+                  />
+                )}
+                {libraryCategories.length > 0 && (
+                  <div className="card-actions" style={{ marginBottom: '1rem', flexWrap: 'wrap' }}>
+                    {[null, ...libraryCategories, ...(settings.persistentItems.some(i => !i.category.trim()) ? [''] : [])].map(category => (
+                      <Button 
+                        key={category ?? 'all'} 
+                        variant={activeLibraryCategory === category ? 'primary' : 'secondary'} 
+                        size="sm" 
+                        onClick={() => setLibraryCategory(category)}
+                      >
+                        {category === null ? 'All' : category || 'Uncategorized'}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                <div className="items-list">
+                  {settings.persistentItems.length === 0 && (
+                    <div className="text-dim">No items yet. Add one or import a supplier price list.</div>
+                  )}
+                  {libraryGroups.map(group => (
+                    <div key={group.category}>
+                      <div className="library-group-header">
+                        <span>{group.category || 'Uncategorized'}</span>
+                        <span className="item-subtext">{group.items.length} items</span>
+                      </div>
+                      {group.items.map(item => (
+                        <LibraryItemCard
+                          key={item.id}
+                          item={item}
+                          library={settings.persistentItems}
+                          roles={settings.laborRoles}
+                          markupPolicy={standardMarkupPolicy}
+                          categories={libraryCategories}
+                          onUpdate={updates => handleUpdatePersistentItem(item.id, updates)}
+                          onDelete={() => handleDeletePersistentItem(item.id)}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </Card>
+
+              <Card title="Business Profile">
+                <div className="text-dim" style={{ marginBottom: '1rem' }}>
+                  Shown on the customer quote document.
+                </div>
+                <div className="hud-grid">
+                  <Input label="Business Name" value={settings.business.name} onChange={e => updateBusiness({ name: e.target.value })} />
+                  <Input label="Phone" type="tel" value={settings.business.phone} onChange={e => updateBusiness({ phone: e.target.value })} />
+                </div>
+                <Input label="Email" type="email" value={settings.business.email} onChange={e => updateBusiness({ email: e.target.value })} />
+                <TextArea label="Address" rows={2} value={settings.business.address} onChange={e => updateBusiness({ address: e.target.value })} />
+                <TextArea label="Terms" rows={4} value={settings.business.terms} onChange={e => updateBusiness({ terms: e.target.value })} />
+                <div className="field-label">Share Links Show</div>
+                <div className="card-actions" style={{ marginBottom: '1rem' }}>
+                  <Button variant={settings.shareView === 'customer' ? 'primary' : 'secondary'} size="sm" onClick={() => updateSettings({ shareView: 'customer' })}>Customer Pricing Only</Button>
+                  <Button variant={settings.shareView === 'internal' ? 'primary' : 'secondary'} size="sm" onClick={() => updateSettings({ shareView: 'internal' })}>Costs & Margin</Button>
+                </div>
+                <div className="field-group no-margin">
+                  <label className="field-label">Logo</label>
+                  <div className="flex-row no-margin align-center">
+                    {settings.business.logo && <img src={settings.business.logo} alt="Logo" style={{ maxHeight: '48px', maxWidth: '96px' }} />}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="text-dim"
+                      onChange={e => {
+                        handleLogoUpload(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                    {settings.business.logo && (
+                      <Button variant="danger" size="sm" onClick={() => updateBusiness({ logo: '' })}>Remove</Button>
+                    )}
+                  </div>
+                </div>
+              </Card>
+
+              <Card title="Data Management">
+                <div className="text-dim" style={{ marginBottom: '1rem' }}>
+                  Back up everything to a file, or restore one. A restore can merge only the sections you pick, such as a shared item library, and leave your quotes alone.
+                </div>
+                {backupRestore && (
+                  <BackupRestore
+                    fileName={backupRestore.fileName}
+                    backup={backupRestore.settings}
+                    current={settings}
+                    onMerge={handleMergeBackup}
+                    onReplace={handleReplaceFromBackup}
+                    onCancel={() => setBackupRestore(null)}
+                  />
+                )}
+                <div className="flex-row no-margin">
+                  <Button variant="secondary" className="full-width" onClick={handleDownloadBackup}>Download Backup</Button>
+                  <label className="btn btn-secondary full-width">
+                    Restore from File
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      hidden
+                      onChange={e => {
+                        handleBackupUpload(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                </div>
+              </Card>
+            </Ariakit.TabPanel>
+          </main>
+        </Ariakit.TabProvider>
+
+        {showDocument && (
+          <QuoteDocumentViewer
+            business={settings.business}
+            customer={customer}
+            quoteName={quoteName}
+            date={new Date().toLocaleDateString()}
+            totals={totals}
+            options={optionSummary && pricedOption ? { ...optionSummary, shownId: pricedOption.id } : undefined}
+            onClose={() => setShowDocument(false)}
+          />
+        )}
+
+        {viewingQuote && (
+          <SavedQuoteViewer
+            quote={viewingQuote}
+            business={settings.business}
+            actions={
+              <>
+                <Button variant="secondary" size="sm" onClick={() => handleCopyShareLink(viewingQuote)}>Copy Share Link</Button>
+                <Button variant="secondary" size="sm" onClick={() => handleDuplicateQuote(viewingQuote)}>Duplicate as New</Button>
+              </>
+            }
+            onClose={() => setViewingQuoteId(null)}
+          />
+        )}
+
+        {sharedQuote && sharedMoney && (
+          <MoneyContext.Provider value={sharedMoney}>
+            <SavedQuoteViewer
+              quote={sharedQuote.quote}
+              business={sharedQuote.business}
+              views={sharedQuote.view === 'internal' ? ['internal', 'customer'] : ['customer']}
+              actions={<Button variant="secondary" size="sm" onClick={() => handleImportSharedQuote(sharedQuote.quote)}>Import to History</Button>}
+              onClose={closeSharedQuote}
+            />
+          </MoneyContext.Provider>
+        )}
+
+        <div className="toast-container">
+          {toasts.map(toast => (
+            <Toast
+              key={toast.id}
+              message={toast.message}
+              type={toast.type}
+              action={toast.undoFrom && toast.undoFrom === undoHistory.past[undoHistory.past.length - 1] ? {
+                label: 'Undo',
+                onClick: () => {
+                  dismissToast(toast.id);
+                  handleUndo();
+                },
+              } : undefined}
+            />
+          ))}
+        </div>
       </div>
-    </div>
+    </MoneyContext.Provider>
   );
 }
 
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { backupFileName, planMerge, summarizeMerge } from './backup';
+import type { BackupSection } from './backup';
+import { DEFAULT_SETTINGS } from './types';
+import type { AppSettings } from './types';
+import { libraryItem, savedLine, savedQuote } from './test-fixtures';
+
+const ALL_SECTIONS: BackupSection[] = ['rates', 'wages', 'items', 'customers', 'quotes'];
+
+const CURRENT: AppSettings = {
+  ...DEFAULT_SETTINGS,
+  laborRoles: [{ id: 'tech', name: 'Technician', wage: 25, billRate: null }],
+  persistentItems: [
+    libraryItem({ id: 'pipe', name: 'Copper Pipe', cost: 10 }),
+    libraryItem({ id: 'valve', name: 'Ball Valve', cost: 4 }),
+  ],
+  customers: [{ id: 'ann', name: 'Ann Lee', address: '', phone: '', email: '', notes: '' }],
+};
+
+// Built on another device: the same names under different ids, plus a new item and quote
+const BACKUP: AppSettings = {
+  ...DEFAULT_SETTINGS,
+  globalMarkup: 45,
+  laborRoles: [{ id: 'b-tech', name: 'technician', wage: 30, billRate: null }],
+  persistentItems: [
+    libraryItem({ id: 'b-pipe', name: 'Copper Pipe', cost: 12 }),
+    libraryItem({ id: 'b-valve', name: 'Ball Valve', cost: 4 }),
+    libraryItem({ id: 'b-kit', name: 'Valve Kit', parts: [{ itemId: 'b-valve', quantity: 2 }], labor: [{ roleId: 'b-tech', hours: 1 }] }),
+  ],
+  customers: [{ id: 'b-ann', name: 'Ann Lee', address: '1 Main St', phone: '', email: '', notes: '' }],
+  savedQuotes: [
+    savedQuote({
+      id: 'b-quote',
+      items: [savedLine('b-pipe', 3, { unitCost: 12 })],
+      customerId: 'b-ann',
+      actuals: {
+        materials: [{ id: 'm1', itemId: 'b-pipe', name: 'Copper Pipe', unit: 'each', quantity: 3, unitCost: 12 }],
+        labor: [],
+      },
+    }),
+  ],
+};
+
+describe('planMerge', () => {
+  it('matches records by name when the ids differ and keeps ours by default', () => {
+    const { rows, settings } = planMerge(CURRENT, BACKUP, { sections: ['wages', 'items'], preferBackup: false });
+    expect(rows.filter(row => row.section === 'items').map(row => [row.name, row.action, row.unchanged])).toEqual([
+      ['Copper Pipe', 'keep', false],
+      ['Ball Valve', 'keep', true],
+      ['Valve Kit', 'add', false],
+    ]);
+    // Names match ignoring case and spacing, so the role is not reported as renamed
+    expect(rows.find(row => row.section === 'wages')).toEqual({ section: 'wages', name: 'technician', action: 'keep', unchanged: false });
+    expect(settings.persistentItems.map(item => [item.id, item.cost])).toEqual([['pipe', 10], ['valve', 4], ['b-kit', 0]]);
+    expect(settings.laborRoles).toEqual(CURRENT.laborRoles);
+  });
+
+  it('notes our name for a record matched by id under a new name', () => {
+    const renamed = { ...BACKUP, persistentItems: [libraryItem({ id: 'pipe', name: 'Copper Pipe 1/2"', cost: 10 })] };
+    const { rows } = planMerge(CURRENT, renamed, { sections: ['items'], preferBackup: false });
+    expect(rows).toEqual([{ section: 'items', name: 'Copper Pipe 1/2"', action: 'keep', unchanged: false, matched: 'Copper Pipe' }]);
+  });
+
+  it('takes the backup record under our id when preferring the backup', () => {
+    const { rows, settings } = planMerge(CURRENT, BACKUP, { sections: ['items'], preferBackup: true });
+    expect(rows.map(row => row.action)).toEqual(['update', 'keep', 'add']);
+    expect(settings.persistentItems[0]).toMatchObject({ id: 'pipe', cost: 12 });
+    expect(settings.persistentItems[1]).toBe(CURRENT.persistentItems[1]);
+  });
+
+  it('points added records at our matching ids', () => {
+    const { settings } = planMerge(CURRENT, BACKUP, { sections: ALL_SECTIONS, preferBackup: false });
+    const kit = settings.persistentItems.find(item => item.name === 'Valve Kit');
+    expect(kit?.parts).toEqual([{ itemId: 'valve', quantity: 2 }]);
+    expect(kit?.labor).toEqual([{ roleId: 'tech', hours: 1 }]);
+    const [quote] = settings.savedQuotes;
+    expect(quote.items[0].itemId).toBe('pipe');
+    expect(quote.actuals?.materials[0].itemId).toBe('pipe');
+    expect(quote.customerId).toBe('ann');
+  });
+
+  it('drops a quote customer that was not merged in', () => {
+    const { settings } = planMerge(DEFAULT_SETTINGS, BACKUP, { sections: ['quotes'], preferBackup: false });
+    expect(settings.savedQuotes[0].customerId).toBeUndefined();
+  });
+
+  it('merges rates as whole values', () => {
+    const keep = planMerge(CURRENT, BACKUP, { sections: ['rates'], preferBackup: false });
+    expect(keep.settings.globalMarkup).toBe(CURRENT.globalMarkup);
+    const take = planMerge(CURRENT, BACKUP, { sections: ['rates'], preferBackup: true });
+    expect(take.settings.globalMarkup).toBe(45);
+    expect(take.rows.map(row => [row.name, row.action])).toEqual([
+      ['Pricing defaults, markup rules and job costs', 'update'],
+      ['Sales tax', 'keep'],
+      ['Currency and rounding', 'keep'],
+    ]);
+  });
+
+  it('leaves sections that were not chosen alone', () => {
+    const { rows, settings } = planMerge(CURRENT, BACKUP, { sections: [], preferBackup: true });
+    expect(rows).toEqual([]);
+    expect(settings).toEqual(CURRENT);
+  });
+
+  it('counts what the merge does', () => {
+    const { rows } = planMerge(CURRENT, BACKUP, { sections: ['items'], preferBackup: true });
+    expect(summarizeMerge(rows)).toEqual({ added: 1, updated: 1, kept: 1 });
+  });
+});
+
+describe('backupFileName', () => {
+  it('uses the local date and time', () => {
+    expect(backupFileName(new Date(2026, 9, 19, 9, 5))).toBe('quote-calc-backup-2026-10-19-0905.json');
+  });
+});
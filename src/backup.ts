@@ -0,0 +1,230 @@
+import type { AppSettings, SavedQuoteItem } from './types';
+import { todayIso } from './utils';
+
+export type BackupSection = 'rates' | 'wages' | 'items' | 'customers' | 'quotes';
+
+export const BACKUP_SECTIONS: { id: BackupSection; label: string }[] = [
+  { id: 'rates', label: 'Rates & Pricing' },
+  { id: 'wages', label: 'Wages' },
+  { id: 'items', label: 'Item Library' },
+  { id: 'customers', label: 'Customers' },
+  { id: 'quotes', label: 'Saved Quotes' },
+];
+
+export type MergeAction = 'add' | 'update' | 'keep';
+
+export interface MergeRow {
+  section: BackupSection;
+  name: string;
+  action: MergeAction;
+  /** The backup has exactly what we already have. */
+  unchanged: boolean;
+  /** Our record's name when it matched under a different one. */
+  matched?: string;
+}
+
+export interface MergeOptions {
+  sections: BackupSection[];
+  /** When both sides have a record, true takes the backup's and false keeps ours. */
+  preferBackup: boolean;
+}
+
+export interface MergePlan {
+  rows: MergeRow[];
+  /** Settings once the merge is applied. */
+  settings: AppSettings;
+}
+
+/** Local date and time, e.g. quote-calc-backup-2026-10-19-1432.json. */
+export const backupFileName = (now = new Date()) => {
+  const time = [now.getHours(), now.getMinutes()].map(part => String(part).padStart(2, '0')).join('');
+  return `quote-calc-backup-${todayIso(now)}-${time}.json`;
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Pairs backup records with ours, by id first and then by name, so a library
+ * built on another device still lines up. Each of ours pairs at most once.
+ * Keys are backup ids.
+ */
+const matchRecords = <T extends { id: string }>(ours: T[], theirs: T[], nameOf: ((record: T) => string) | null) => {
+  const matches = new Map<string, T>();
+  const taken = new Set<string>();
+  theirs.forEach(record => {
+    const match = ours.find(o => o.id === record.id);
+    if (!match) return;
+    matches.set(record.id, match);
+    taken.add(match.id);
+  });
+  if (!nameOf) return matches;
+  theirs.forEach(record => {
+    const name = normalizeName(nameOf(record));
+    if (matches.has(record.id) || !name) return;
+    const match = ours.find(o => !taken.has(o.id) && normalizeName(nameOf(o)) === name);
+    if (!match) return;
+    matches.set(record.id, match);
+    taken.add(match.id);
+  });
+  return matches;
+};
+
+const mergeRecords = <T extends { id: string }>(
+  section: BackupSection,
+  ours: T[],
+  theirs: T[],
+  matches: Map<string, T>,
+  nameOf: (record: T) => string,
+  preferBackup: boolean
+) => {
+  const replaced = new Map<string, T>();
+  const added: T[] = [];
+  const rows = theirs.map((record): MergeRow => {
+    const name = nameOf(record);
+    const match = matches.get(record.id);
+    if (!match) {
+      added.push(record);
+      return { section, name, action: 'add', unchanged: false };
+    }
+    // Ours keeps its id, so whatever points at it still does
+    const incoming = { ...record, id: match.id };
+    const unchanged = isSame(incoming, match);
+    const row = {
+      section,
+      name,
+      unchanged,
+      ...(normalizeName(nameOf(match)) !== normalizeName(name) && { matched: nameOf(match) }),
+    };
+    if (unchanged || !preferBackup) return { ...row, action: 'keep' };
+    replaced.set(match.id, incoming);
+    return { ...row, action: 'update' };
+  });
+  return { records: [...ours.map(record => replaced.get(record.id) ?? record), ...added], rows };
+};
+
+const mergeValue = <T>(section: BackupSection, name: string, ours: T, theirs: T, preferBackup: boolean) => {
+  const unchanged = isSame(ours, theirs);
+  const action: MergeAction = unchanged || !preferBackup ? 'keep' : 'update';
+  return { value: action === 'update' ? theirs : ours, row: { section, name, action, unchanged } };
+};
+
+const idMap = <T extends { id: string }>(matches: Map<string, T>) => {
+  return new Map([...matches].map(([theirId, ours]) => [theirId, ours.id]));
+};
+
+const pricingDefaults = ({ targetHourly, globalMarkup, marginFloor, quoteValidityDays, markupRules, jobCosts }: AppSettings) => ({
+  targetHourly,
+  globalMarkup,
+  marginFloor,
+  quoteValidityDays,
+  markupRules,
+  jobCosts,
+});
+
+/**
+ * Works out what merging the chosen sections of a backup would do, without
+ * touching anything. Our records that are not in the backup always stay.
+ */
+export const planMerge = (current: AppSettings, backup: AppSettings, { sections, preferBackup }: MergeOptions): MergePlan => {
+  const includes = (section: BackupSection) => sections.includes(section);
+  const roleMatches = matchRecords(current.laborRoles, backup.laborRoles, role => role.name);
+  const itemMatches = matchRecords(current.persistentItems, backup.persistentItems, item => item.name);
+  const customerMatches = matchRecords(current.customers, backup.customers, customer => customer.name);
+  const profileMatches = matchRecords(current.pricingProfiles, backup.pricingProfiles, profile => profile.name);
+  // Quote names are not unique, so quotes only match their own copy
+  const quoteMatches = matchRecords(current.savedQuotes, backup.savedQuotes, null);
+
+  // References inside the backup point at its own ids; move them onto ours
+  const roleIds = idMap(roleMatches);
+  const itemIds = idMap(itemMatches);
+  const customerIds = idMap(customerMatches);
+  const toRole = (id: string) => roleIds.get(id) ?? id;
+  const toItem = (id: string) => itemIds.get(id) ?? id;
+  const relinkItems = (items: SavedQuoteItem[]) => items.map(qItem => ({ ...qItem, itemId: toItem(qItem.itemId) }));
+
+  const rows: MergeRow[] = [];
+  const settings = { ...current };
+
+  if (includes('rates')) {
+    const defaults = mergeValue('rates', 'Pricing defaults, markup rules and job costs', pricingDefaults(current), pricingDefaults(backup), preferBackup);
+    const tax = mergeValue('rates', 'Sales tax', current.tax, backup.tax, preferBackup);
+    const money = mergeValue('rates', 'Currency and rounding', current.money, backup.money, preferBackup);
+    const profiles = mergeRecords(
+      'rates',
+      current.pricingProfiles,
+      backup.pricingProfiles.map(profile => ({ ...profile, roleRates: profile.roleRates.map(rate => ({ ...rate, roleId: toRole(rate.roleId) })) })),
+      profileMatches,
+      profile => profile.name,
+      preferBackup
+    );
+    Object.assign(settings, defaults.value, { tax: tax.value, money: money.value, pricingProfiles: profiles.records });
+    rows.push(defaults.row, tax.row, money.row, ...profiles.rows);
+  }
+
+  if (includes('wages')) {
+    const roles = mergeRecords('wages', current.laborRoles, backup.laborRoles, roleMatches, role => role.name, preferBackup);
+    settings.laborRoles = roles.records;
+    rows.push(...roles.rows);
+  }
+
+  if (includes('items')) {
+    const items = mergeRecords(
+      'items',
+      current.persistentItems,
+      backup.persistentItems.map(item => ({
+        ...item,
+        parts: item.parts.map(part => ({ ...part, itemId: toItem(part.itemId) })),
+        labor: item.labor.map(line => ({ ...line, roleId: toRole(line.roleId) })),
+      })),
+      itemMatches,
+      item => item.name,
+      preferBackup
+    );
+    settings.persistentItems = items.records;
+    rows.push(...items.rows);
+  }
+
+  if (includes('customers')) {
+    const customers = mergeRecords('customers', current.customers, backup.customers, customerMatches, customer => customer.name, preferBackup);
+    settings.customers = customers.records;
+    rows.push(...customers.rows);
+  }
+
+  if (includes('quotes')) {
+    const quotes = mergeRecords(
+      'quotes',
+      current.savedQuotes,
+      backup.savedQuotes.map(quote => {
+        const customerId = quote.customerId && (customerIds.get(quote.customerId) ?? quote.customerId);
+        return {
+          ...quote,
+          items: relinkItems(quote.items),
+          ...(quote.options && { options: quote.options.map(option => ({ ...option, items: relinkItems(option.items) })) }),
+          ...(quote.actuals && {
+            actuals: {
+              ...quote.actuals,
+              materials: quote.actuals.materials.map(material => ({ ...material, itemId: material.itemId && toItem(material.itemId) })),
+            },
+          }),
+          // A customer that did not come across can't be linked to
+          customerId: settings.customers.some(customer => customer.id === customerId) ? customerId : undefined,
+        };
+      }),
+      quoteMatches,
+      quote => quote.name,
+      preferBackup
+    );
+    settings.savedQuotes = quotes.records;
+    rows.push(...quotes.rows);
+  }
+
+  return { rows, settings };
+};
+
+export const summarizeMerge = (rows: MergeRow[]) => ({
+  added: rows.filter(row => row.action === 'add').length,
+  updated: rows.filter(row => row.action === 'update').length,
+  kept: rows.filter(row => row.action === 'keep').length,
+});
@@ -0,0 +1,32 @@
+import { applyUpdate, useOfflineUnavailable, useOnline, useUpdateReady } from '../pwa';
+import { Button } from './Shared';
+
+/** Offline notices and the prompt to reload into a newly installed version. */
+export const AppStatus = () => {
+  const online = useOnline();
+  const updateReady = useUpdateReady();
+  const offlineUnavailable = useOfflineUnavailable();
+  if (online && !updateReady && !offlineUnavailable) return null;
+
+  return (
+    <div className="app-status">
+      {!online && (
+        <div className="app-status-row offline">
+          <span className="status-dot" />
+          Offline. Everything keeps working and is saved on this device.
+        </div>
+      )}
+      {offlineUnavailable && (
+        <div className="app-status-row">
+          Offline use could not be set up, so the app needs a connection to open next time. Your work is still saved on this device.
+        </div>
+      )}
+      {updateReady && (
+        <div className="app-status-row">
+          <span>A new version is ready. Your work is saved.</span>
+          <Button variant="primary" size="sm" onClick={applyUpdate}>Reload</Button>
+        </div>
+      )}
+    </div>
+  );
+};
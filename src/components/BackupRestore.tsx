@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import type { AppSettings } from '../types';
+import { BACKUP_SECTIONS, planMerge, summarizeMerge } from '../backup';
+import type { BackupSection, MergeRow } from '../backup';
+import { Button } from './Shared';
+
+const PREVIEW_ROWS = 50;
+
+const ACTION_LABELS: Record<MergeRow['action'], string> = {
+  add: 'New',
+  update: 'Update',
+  keep: 'Keep',
+};
+
+const SECTION_LABELS = Object.fromEntries(BACKUP_SECTIONS.map(section => [section.id, section.label])) as Record<BackupSection, string>;
+
+/** Section picker and preview for a backup file before it touches anything. */
+export const BackupRestore = ({ fileName, backup, current, onMerge, onReplace, onCancel }: {
+  fileName: string;
+  /** Parsed and migrated contents of the file. */
+  backup: AppSettings;
+  current: AppSettings;
+  onMerge: (settings: AppSettings, rows: MergeRow[]) => void;
+  onReplace: () => void;
+  onCancel: () => void;
+}) => {
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const [sections, setSections] = useState<BackupSection[]>(['items']);
+  const [preferBackup, setPreferBackup] = useState(true);
+
+  const plan = planMerge(current, backup, { sections, preferBackup });
+  const summary = summarizeMerge(plan.rows);
+  const unchanged = plan.rows.filter(row => row.unchanged).length;
+  // Identical records only show up in the counts
+  const previewRows = plan.rows.filter(row => !row.unchanged);
+
+  const toggleSection = (id: BackupSection) => {
+    setSections(sections.includes(id) ? sections.filter(s => s !== id) : [...sections, id]);
+  };
+
+  return (
+    <div className="import-panel">
+      <div className="field-label">
+        Restore {fileName} • {backup.persistentItems.length} items, {backup.savedQuotes.length} quotes, {backup.customers.length} customers
+      </div>
+      <div className="card-actions" style={{ marginBottom: '1rem' }}>
+        <Button variant={mode === 'merge' ? 'primary' : 'secondary'} size="sm" onClick={() => setMode('merge')}>Merge Sections</Button>
+        <Button variant={mode === 'replace' ? 'primary' : 'secondary'} size="sm" onClick={() => setMode('replace')}>Replace Everything</Button>
+      </div>
+
+      {mode === 'replace' ? (
+        <>
+          <div className="danger" style={{ marginBottom: '1rem' }}>
+            Every setting, item, customer and saved quote on this device is replaced by the backup.
+          </div>
+          <div className="card-actions" style={{ justifyContent: 'flex-end' }}>
+            <Button variant="secondary" size="sm" onClick={onCancel}>Cancel</Button>
+            <Button variant="danger" size="sm" onClick={onReplace}>Replace Everything</Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="field-label">Import</div>
+          <div className="card-actions" style={{ marginBottom: '1rem', flexWrap: 'wrap' }}>
+            {BACKUP_SECTIONS.map(section => (
+              <Button
+                key={section.id}
+                variant={sections.includes(section.id) ? 'primary' : 'secondary'}
+                size="sm"
+                onClick={() => toggleSection(section.id)}
+              >
+                {section.label}
+              </Button>
+            ))}
+          </div>
+          <div className="field-label">When Both Have a Record</div>
+          <div className="card-actions" style={{ marginBottom: '1rem' }}>
+            <Button variant={preferBackup ? 'primary' : 'secondary'} size="sm" onClick={() => setPreferBackup(true)}>Use the Backup's</Button>
+            <Button variant={!preferBackup ? 'primary' : 'secondary'} size="sm" onClick={() => setPreferBackup(false)}>Keep Mine</Button>
+          </div>
+          <div className="text-dim">
+            Records match by id, then by name; saved quotes only by id. Anything not in the backup stays as it is.
+          </div>
+
+          <div className="item-subtext" style={{ margin: '1rem 0 0.5rem' }}>
+            <span className="success">{summary.added} new</span> • <span className="cyan">{summary.updated} updated</span> • <span className="text-dim">{summary.kept} kept{unchanged > 0 && ` (${unchanged} already the same)`}</span>
+          </div>
+          {previewRows.length > 0 && (
+            <div className="import-preview">
+              <table>
+                <thead>
+                  <tr><th>Section</th><th></th><th>Name</th><th></th></tr>
+                </thead>
+                <tbody>
+                  {previewRows.slice(0, PREVIEW_ROWS).map((row, idx) => (
+                    <tr key={idx} className={`import-${row.action === 'keep' ? 'skip' : row.action}`}>
+                      <td className="text-dim">{SECTION_LABELS[row.section]}</td>
+                      <td className="bold">{ACTION_LABELS[row.action]}</td>
+                      <td>{row.name || 'Unnamed'}</td>
+                      <td className="text-dim">
+                        {row.matched !== undefined && `Matches ${row.matched || 'unnamed'}`}
+                        {row.action === 'keep' && `${row.matched !== undefined ? ' • ' : ''}Yours kept`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {previewRows.length > PREVIEW_ROWS && <div className="item-subtext">…and {previewRows.length - PREVIEW_ROWS} more</div>}
+            </div>
+          )}
+
+          <div className="card-actions" style={{ justifyContent: 'flex-end' }}>
+            <Button variant="secondary" size="sm" onClick={onCancel}>Cancel</Button>
+            <Button variant="primary" size="sm" disabled={summary.added + summary.updated === 0} onClick={() => onMerge(plan.settings, plan.rows)}>
+              Merge {summary.added + summary.updated} Changes
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import { useMemo, useState } from 'react';
+import * as Ariakit from '@ariakit/react';
+import type { PersistentItem, SavedQuote } from '../types';
+import { addDaysIso } from '../utils';
+import { buildCostChangeReport, isOpenQuote } from '../costs';
+import { useMoney } from '../moneyContext';
+import { Button, Card, Input } from './Shared';
+import { StatusBadge } from './QuoteLifecycle';
+
+const percentChange = (from: number, to: number) => {
+  const pct = ((to - from) / from) * 100;
+  return `${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`;
+};
+
+/** Library cost changes since a date and the saved quotes they leave underpriced. */
+export const CostChangeReport = ({ items, quotes, marginFloor, onOpenQuote }: {
+  items: PersistentItem[];
+  quotes: SavedQuote[];
+  marginFloor: number;
+  onOpenQuote: (quote: SavedQuote) => void;
+}) => {
+  const money = useMoney();
+  const [since, setSince] = useState(() => addDaysIso(-30));
+  const [openOnly, setOpenOnly] = useState(true);
+
+  const report = useMemo(() => buildCostChangeReport(items, quotes, since), [items, quotes, since]);
+  const affected = openOnly ? report.quotes.filter(impact => isOpenQuote(impact.quote)) : report.quotes;
+
+  return (
+    <Card title="Cost Changes">
+      <div className="flex-row align-center">
+        <Input
+          label="Changed since"
+          type="date"
+          value={since}
+          onChange={e => setSince(e.target.value)}
+          containerClassName="no-margin"
+        />
+        <Ariakit.CheckboxProvider value={openOnly} setValue={val => setOpenOnly(!!val)}>
+          <Ariakit.Checkbox render={<label className="checkbox-row" />}>
+            <Ariakit.CheckboxCheck className="checkbox" />
+            <span className="field-label" style={{ marginBottom: 0 }}>Drafts and sent quotes only</span>
+          </Ariakit.Checkbox>
+        </Ariakit.CheckboxProvider>
+      </div>
+
+      {report.items.length === 0 ? (
+        <div className="text-dim">No library costs changed since {since}.</div>
+      ) : (
+        <div className="items-list">
+          {report.items.map(({ item, changes, from }) => (
+            <div key={item.id} className="item-row align-center">
+              <div className="item-name-col">
+                <span className="item-name">{item.name}</span>
+                <span className="item-subtext">
+                  {[item.supplier, `changed ${changes.map(change => change.date).join(', ')}`].filter(Boolean).join(' • ')}
+                </span>
+              </div>
+              <div className="item-meta-col">
+                <div style={{ textAlign: 'right' }}>
+                  <div className="item-subtext">Old → New</div>
+                  <div className="mono-val">{money.format(from)} → {money.format(item.cost)}</div>
+                </div>
+                <div style={{ textAlign: 'right', minWidth: '80px' }}>
+                  <span className={`mono-val ${item.cost > from ? 'danger' : 'success'}`}>{percentChange(from, item.cost)}</span>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report.items.length > 0 && (
+        <>
+          <div className="divider" />
+          <span className="field-label">Affected Quotes</span>
+          {affected.length === 0 ? (
+            <div className="text-dim">No {openOnly ? 'open ' : ''}quotes use these items at their old cost.</div>
+          ) : (
+            <div className="items-list">
+              {affected.map(({ quote, costIncrease, margin, newMargin }) => (
+                <div key={quote.id} className="item-row align-center">
+                  <div className="item-name-col">
+                    <span className="item-name">{quote.name || 'Untitled Quote'}<StatusBadge status={quote.status} /></span>
+                    <span className="item-subtext">
+                      {quote.date}{quote.customer?.name && ` • ${quote.customer.name}`} • Cost {costIncrease > 0 ? '+' : '-'}{money.format(Math.abs(costIncrease))}
+                    </span>
+                  </div>
+                  <div className="item-meta-col">
+                    <div style={{ textAlign: 'right' }}>
+                      <div className="item-subtext">Margin</div>
+                      <div className="mono-val">
+                        {margin.toFixed(1)}% → <span className={newMargin < marginFloor ? 'danger' : ''}>{newMargin.toFixed(1)}%</span>
+                      </div>
+                    </div>
+                    <Button variant="secondary" size="sm" onClick={() => onOpenQuote(quote)}>View</Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import type { Customer, SavedQuote } from '../types';
+import { matchesCustomer, summarizeCustomerQuotes } from '../utils';
+import { useMoney } from '../moneyContext';
+import { Button, Card, Input, TextArea } from './Shared';
+import { StatusBadge } from './QuoteLifecycle';
+
+/** Customer list with a detail view of each customer's quotes and lifetime totals. */
+export const CustomerDirectory = ({ customers, quotes, onAdd, onUpdate, onDelete, onOpenQuote }: {
+  customers: Customer[];
+  quotes: SavedQuote[];
+  onAdd: () => Customer;
+  onUpdate: (id: string, updates: Partial<Customer>) => void;
+  onDelete: (id: string) => void;
+  onOpenQuote: (quote: SavedQuote) => void;
+}) => {
+  const money = useMoney();
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const visible = customers.filter(c => matchesCustomer(c, search));
+  const selected = customers.find(c => c.id === selectedId) ?? null;
+  const summary = selected ? summarizeCustomerQuotes(quotes, selected.id) : null;
+
+  return (
+    <>
+      <Card
+        title="Customers"
+        actions={
+          <Button variant="secondary" size="sm" onClick={() => setSelectedId(onAdd().id)}>
+            + Add Customer
+          </Button>
+        }
+      >
+        <Input placeholder="Search name, phone or email..." value={search} onChange={e => setSearch(e.target.value)} />
+        <div className="items-list">
+          {customers.length === 0 && (
+            <div className="text-dim" style={{ textAlign: 'center', padding: '2rem' }}>No customers yet. Save one from a quote or add one here.</div>
+          )}
+          {customers.length > 0 && visible.length === 0 && <div className="text-dim">No customers found.</div>}
+          {visible.map(customer => {
+            const { quotes: customerQuotes, quoted } = summarizeCustomerQuotes(quotes, customer.id);
+            return (
+              <div
+                key={customer.id}
+                className={`item-row align-center ${customer.id === selectedId ? 'item-row-selected' : ''}`}
+                style={{ cursor: 'pointer' }}
+                onClick={() => setSelectedId(customer.id === selectedId ? null : customer.id)}
+              >
+                <div className="item-name-col">
+                  <span className="item-name">{customer.name || 'Unnamed customer'}</span>
+                  <span className="item-subtext">
+                    {[customer.phone, customer.email].filter(Boolean).join(' • ') || 'No contact details'} • {customerQuotes.length} quotes
+                  </span>
+                </div>
+                <div className="item-meta-col">
+                  <div style={{ textAlign: 'right' }}>
+                    <div className="item-subtext">Quoted</div>
+                    <div className="mono-val bold">{money.format(quoted)}</div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+
+      {selected && summary && (
+        <Card
+          title={selected.name || 'Customer'}
+          actions={
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={() => {
+                if (confirm(`Delete ${selected.name || 'this customer'}? Their quotes are kept but no longer linked.`)) {
+                  onDelete(selected.id);
+                  setSelectedId(null);
+                }
+              }}
+            >
+              Delete
+            </Button>
+          }
+        >
+          <div className="hud-stats" style={{ marginBottom: '1rem' }}>
+            <div className="hud-row">
+              <span className="item-subtext">Quotes</span>
+              <span className="mono-val">{summary.quotes.length}</span>
+            </div>
+            <div className="hud-row">
+              <span className="item-subtext">Lifetime Quoted</span>
+              <span className="mono-val bold">{money.format(summary.quoted)}</span>
+            </div>
+            <div className="hud-row">
+              <span className="item-subtext">Lifetime Accepted</span>
+              <span className="mono-val bold success">{money.format(summary.accepted)}</span>
+            </div>
+          </div>
+
+          <div className="hud-grid">
+            <Input label="Name" value={selected.name} onChange={e => onUpdate(selected.id, { name: e.target.value })} />
+            <Input label="Phone" type="tel" value={selected.phone} onChange={e => onUpdate(selected.id, { phone: e.target.value })} />
+          </div>
+          <Input label="Email" type="email" value={selected.email} onChange={e => onUpdate(selected.id, { email: e.target.value })} />
+          <TextArea label="Address" rows={2} value={selected.address} onChange={e => onUpdate(selected.id, { address: e.target.value })} />
+          <TextArea label="Notes" rows={3} value={selected.notes} onChange={e => onUpdate(selected.id, { notes: e.target.value })} />
+
+          <div className="divider" />
+          <div className="field-label">Quotes</div>
+          <div className="items-list">
+            {summary.quotes.length === 0 && <div className="text-dim">No quotes for this customer yet.</div>}
+            {summary.quotes.map(quote => (
+              <div key={quote.id} className="item-row align-center" style={{ cursor: 'pointer' }} onClick={() => onOpenQuote(quote)}>
+                <div className="item-name-col">
+                  <span className="item-name">{quote.name} <StatusBadge status={quote.status} /></span>
+                  <span className="item-subtext">{quote.date} • {quote.items.length} items</span>
+                </div>
+                <div className="item-meta-col">
+                  <div className="mono-val bold">{money.format(quote.totalPrice)}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,36 @@
+import type { Discount } from '../types';
+import { useMoney } from '../moneyContext';
+import { Button, Input } from './Shared';
+
+/** Number field with a toggle between a percentage and a fixed dollar discount. */
+export const DiscountInput = ({ discount, onChange, label, id }: {
+  discount?: Discount | null;
+  onChange: (discount: Discount) => void;
+  label?: string;
+  id?: string;
+}) => {
+  const money = useMoney();
+  const type = discount?.type ?? 'percent';
+  return (
+    <div className="flex-row no-margin align-center" style={{ width: 'auto' }}>
+      <Input
+        id={id}
+        label={label}
+        type="number"
+        className="w-3-digit"
+        prefix={type === 'amount' ? money.symbol : undefined}
+        placeholder="0"
+        value={discount?.value || ''}
+        onChange={e => onChange({ type, value: Number(e.target.value) })}
+      />
+      <Button
+        variant="secondary"
+        size="sm"
+        title="Switch between percent and fixed amount discount"
+        onClick={() => onChange({ type: type === 'percent' ? 'amount' : 'percent', value: discount?.value ?? 0 })}
+      >
+        {type === 'percent' ? '%' : money.symbol}
+      </Button>
+    </div>
+  );
+};
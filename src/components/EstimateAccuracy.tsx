@@ -0,0 +1,68 @@
+import { useMemo, useState } from 'react';
+import type { PersistentItem, PricingProfile, SavedQuote } from '../types';
+import { buildAccuracyReport, formatCostVariance } from '../jobCosting';
+import type { AccuracyGrouping } from '../jobCosting';
+import { useMoney } from '../moneyContext';
+import { Button, Card } from './Shared';
+
+const GROUPINGS: { id: AccuracyGrouping; label: string }[] = [
+  { id: 'item', label: 'Items & Roles' },
+  { id: 'category', label: 'Categories' },
+  { id: 'jobType', label: 'Job Types' },
+];
+
+/** Estimated against actual cost across every job with actuals, to show what we keep under-estimating. */
+export const EstimateAccuracy = ({ quotes, items, profiles }: {
+  quotes: SavedQuote[];
+  items: PersistentItem[];
+  profiles: PricingProfile[];
+}) => {
+  const money = useMoney();
+  const [grouping, setGrouping] = useState<AccuracyGrouping>('item');
+
+  const jobs = quotes.filter(quote => quote.actuals).length;
+  const rows = useMemo(() => buildAccuracyReport(quotes, grouping, { items, profiles }), [quotes, grouping, items, profiles]);
+
+  return (
+    <Card title="Estimate Accuracy">
+      {jobs === 0 ? (
+        <div className="text-dim">No job has actuals yet. Open a saved quote's Job Costing to record what the work really took.</div>
+      ) : (
+        <>
+          <div className="card-actions" style={{ marginBottom: '1rem' }}>
+            {GROUPINGS.map(g => (
+              <Button key={g.id} variant={grouping === g.id ? 'primary' : 'secondary'} size="sm" onClick={() => setGrouping(g.id)}>{g.label}</Button>
+            ))}
+          </div>
+          <div className="item-subtext" style={{ marginBottom: '0.5rem' }}>
+            {jobs} {jobs === 1 ? 'job' : 'jobs'} with actuals • worst under-estimate first. Job types follow the pricing profile each quote used.
+          </div>
+          <table className="variance-table">
+            <thead>
+              <tr>
+                <th>{GROUPINGS.find(g => g.id === grouping)?.label}</th>
+                <th className="num">Over Estimate</th>
+                <th className="num">Est. Cost</th>
+                <th className="num">Actual Cost</th>
+                <th className="num">Variance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key}>
+                  <td>{row.name}</td>
+                  <td className="num">{row.overEstimate} of {row.jobs}</td>
+                  <td className="num">{money.format(row.estimatedCost)}</td>
+                  <td className="num">{money.format(row.actualCost)}</td>
+                  <td className={`num ${row.actualCost > row.estimatedCost ? 'danger' : row.actualCost < row.estimatedCost ? 'success' : ''}`}>
+                    {formatCostVariance(row.estimatedCost, row.actualCost)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,212 @@
+import { useMemo } from 'react';
+import * as Ariakit from '@ariakit/react';
+import type { ActualLabor, ActualMaterial, JobActuals, SavedQuote } from '../types';
+import { buildJobVariance, createActualLabor, createExtraMaterial, formatCostVariance, startActuals } from '../jobCosting';
+import type { VarianceFigures } from '../jobCosting';
+import { formatQuantity } from '../utils';
+import { useMoney } from '../moneyContext';
+import { Button, Input } from './Shared';
+
+/** Actual hours and materials for one saved quote and how they compare with the estimate, shown under its History row. */
+export const JobCosting = ({ quote, onChange }: {
+  quote: SavedQuote;
+  onChange: (quote: SavedQuote) => void;
+}) => {
+  const money = useMoney();
+  const variance = useMemo(() => buildJobVariance(quote), [quote]);
+  const roles = quote.laborRates.roles;
+
+  if (!quote.actuals) {
+    return (
+      <div className="lifecycle-panel">
+        <div className="text-dim" style={{ marginBottom: '1rem' }}>
+          Once the work is done, record the hours each person worked and the materials that went in, to see how the estimate held up.
+        </div>
+        <Button variant="primary" size="sm" onClick={() => onChange({ ...quote, actuals: startActuals(quote) })}>Start from the Estimate</Button>
+      </div>
+    );
+  }
+
+  const actuals = quote.actuals;
+  const updateActuals = (updates: Partial<JobActuals>) => onChange({ ...quote, actuals: { ...actuals, ...updates } });
+  const updateMaterial = (id: string, updates: Partial<ActualMaterial>) => {
+    updateActuals({ materials: actuals.materials.map(material => material.id === id ? { ...material, ...updates } : material) });
+  };
+  const updateLabor = (id: string, updates: Partial<ActualLabor>) => {
+    updateActuals({ labor: actuals.labor.map(entry => entry.id === id ? { ...entry, ...updates } : entry) });
+  };
+
+  const figureCells = (figures: VarianceFigures) => (
+    <>
+      <td className="num">{money.format(figures.cost)}</td>
+      <td className="num">{money.format(figures.profit)}</td>
+      <td className="num">{figures.margin.toFixed(1)}%</td>
+    </>
+  );
+
+  return (
+    <div className="lifecycle-panel">
+      <div className="field-label">Actual Labor</div>
+      {actuals.labor.map(entry => {
+        const role = roles.find(r => r.id === entry.roleId);
+        return (
+          <div key={entry.id} className="flex-row no-margin align-center" style={{ marginBottom: '8px' }}>
+            <Input
+              placeholder="Who"
+              value={entry.person}
+              onChange={e => updateLabor(entry.id, { person: e.target.value })}
+              containerClassName="flex-1 no-margin"
+            />
+            <Ariakit.SelectProvider value={entry.roleId} setValue={roleId => updateLabor(entry.id, { roleId })}>
+              <Ariakit.Select className="select-trigger">{role ? role.name : 'Select role...'}</Ariakit.Select>
+              <Ariakit.SelectPopover gutter={4} sameWidth className="select-popover">
+                {roles.map(r => (
+                  <Ariakit.SelectItem key={r.id} value={r.id} className="combobox-item">{r.name}</Ariakit.SelectItem>
+                ))}
+              </Ariakit.SelectPopover>
+            </Ariakit.SelectProvider>
+            <Input
+              type="number"
+              className="w-3-digit"
+              value={entry.hours}
+              onChange={e => updateLabor(entry.id, { hours: Number(e.target.value) })}
+              containerClassName="no-margin"
+            />
+            <span className="item-subtext">hrs</span>
+            <Button
+              variant="danger"
+              size="sm"
+              className="btn-icon"
+              onClick={() => updateActuals({ labor: actuals.labor.filter(e => e.id !== entry.id) })}
+            >
+              ✕
+            </Button>
+          </div>
+        );
+      })}
+      <div className="card-actions" style={{ marginBottom: '1rem' }}>
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={roles.length === 0}
+          onClick={() => updateActuals({ labor: [...actuals.labor, createActualLabor(roles[0].id)] })}
+        >
+          Add Person
+        </Button>
+      </div>
+
+      <div className="field-label">Actual Materials</div>
+      {actuals.materials.map(material => (
+        <div key={material.id} className="flex-row no-margin align-center" style={{ marginBottom: '8px' }}>
+          {material.itemId === null ? (
+            <Input
+              placeholder="Extra material"
+              value={material.name}
+              onChange={e => updateMaterial(material.id, { name: e.target.value })}
+              containerClassName="flex-1 no-margin"
+            />
+          ) : (
+            <span className="item-name flex-1">{material.name}</span>
+          )}
+          <Input
+            type="number"
+            className="w-3-digit"
+            value={material.quantity}
+            onChange={e => updateMaterial(material.id, { quantity: Number(e.target.value) })}
+            containerClassName="no-margin"
+          />
+          <span className="item-subtext">{material.unit} at</span>
+          <Input
+            type="number"
+            className="w-3-digit"
+            prefix={money.symbol}
+            value={material.unitCost}
+            onChange={e => updateMaterial(material.id, { unitCost: Number(e.target.value) })}
+            containerClassName="no-margin"
+          />
+          <Button
+            variant="danger"
+            size="sm"
+            className="btn-icon"
+            onClick={() => updateActuals({ materials: actuals.materials.filter(m => m.id !== material.id) })}
+          >
+            ✕
+          </Button>
+        </div>
+      ))}
+      <div className="card-actions" style={{ marginBottom: '1rem' }}>
+        <Button variant="secondary" size="sm" onClick={() => updateActuals({ materials: [...actuals.materials, createExtraMaterial()] })}>
+          Add Unplanned Extra
+        </Button>
+      </div>
+
+      {variance && (
+        <>
+          <div className="divider" />
+          <div className="field-label">Estimate vs Actual</div>
+          <table className="variance-table">
+            <thead>
+              <tr>
+                <th>Line</th>
+                <th className="num">Qty</th>
+                <th className="num">Est. Cost</th>
+                <th className="num">Actual Cost</th>
+                <th className="num">Variance</th>
+                <th className="num">Profit (Est. → Actual)</th>
+                <th className="num">Margin (Est. → Actual)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {variance.rows.map(row => {
+                const estimated = row.price - row.estimatedCost;
+                const actual = row.price - row.actualCost;
+                const marginOf = (profit: number) => `${((profit / row.price) * 100).toFixed(1)}%`;
+                const over = row.actualCost > row.estimatedCost;
+                return (
+                  <tr key={`${row.kind}-${row.key}`}>
+                    <td>
+                      {row.name || 'Unnamed'}
+                      {row.extra && <span className="item-subtext"> • not quoted</span>}
+                    </td>
+                    <td className="num">
+                      {row.kind !== 'overhead' && `${formatQuantity(row.estimatedQuantity, row.unit)} → ${formatQuantity(row.actualQuantity, row.unit)}`}
+                    </td>
+                    <td className="num">{money.format(row.estimatedCost)}</td>
+                    <td className="num">{money.format(row.actualCost)}</td>
+                    <td className={`num ${over ? 'danger' : row.actualCost < row.estimatedCost ? 'success' : ''}`}>
+                      {formatCostVariance(row.estimatedCost, row.actualCost)}
+                    </td>
+                    <td className="num">{row.kind !== 'overhead' && `${money.format(estimated)} → ${money.format(actual)}`}</td>
+                    <td className="num">{row.kind !== 'overhead' && row.price > 0 && `${marginOf(estimated)} → ${marginOf(actual)}`}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <table className="variance-table">
+            <thead>
+              <tr>
+                <th>Whole Job ({money.format(variance.price)} pre-tax)</th>
+                <th className="num">Cost</th>
+                <th className="num">Net Profit</th>
+                <th className="num">Margin</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr><td>Estimated</td>{figureCells(variance.estimated)}</tr>
+              <tr className="bold"><td>Actual</td>{figureCells(variance.actual)}</tr>
+            </tbody>
+          </table>
+          <div className={variance.actual.profit < variance.estimated.profit ? 'danger' : 'success'}>
+            {variance.actual.cost === variance.estimated.cost
+              ? 'The job cost exactly what was estimated.'
+              : `The job cost ${money.format(Math.abs(variance.actual.cost - variance.estimated.cost))} ${variance.actual.cost > variance.estimated.cost ? 'more' : 'less'} than estimated (${formatCostVariance(variance.estimated.cost, variance.actual.cost)}).`}
+          </div>
+          <div className="card-actions" style={{ justifyContent: 'flex-end', marginTop: '1rem' }}>
+            <Button variant="danger" size="sm" onClick={() => onChange({ ...quote, actuals: undefined })}>Clear Actuals</Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import * as Ariakit from '@ariakit/react';
+import type { PersistentItem } from '../types';
+import { LIBRARY_FIELDS, guessColumnMapping, planLibraryImport, summarizeImport } from '../csv';
+import type { ColumnMapping, ImportRow } from '../csv';
+import { useMoney } from '../moneyContext';
+import { Button } from './Shared';
+
+const PREVIEW_ROWS = 25;
+const NOT_MAPPED = 'none';
+
+const ACTION_LABELS: Record<ImportRow['action'], string> = {
+  add: 'New',
+  update: 'Update',
+  skip: 'Skip',
+};
+
+/** Column mapping and preview for a supplier CSV before it touches the library. */
+export const LibraryImport = ({ fileName, rows, items, onApply, onCancel }: {
+  fileName: string;
+  /** Parsed CSV including the header row. */
+  rows: string[][];
+  items: PersistentItem[];
+  onApply: (plan: ImportRow[]) => void;
+  onCancel: () => void;
+}) => {
+  const money = useMoney();
+  const [headers, ...dataRows] = rows;
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(headers));
+
+  const canImport = mapping.cost !== null && (mapping.name !== null || mapping.sku !== null);
+  const plan = canImport ? planLibraryImport(dataRows, mapping, items) : [];
+  const summary = summarizeImport(plan);
+  const itemName = (id?: string) => items.find(item => item.id === id)?.name;
+
+  return (
+    <div className="import-panel">
+      <div className="field-label">Import {fileName} • {dataRows.length} rows</div>
+      <div className="import-mapping">
+        {LIBRARY_FIELDS.map(field => {
+          const column = mapping[field.id];
+          return (
+            <div key={field.id} className="field-group no-margin">
+              <label className="field-label">{field.label}{field.required && ' *'}</label>
+              <Ariakit.SelectProvider
+                value={column === null ? NOT_MAPPED : String(column)}
+                setValue={val => setMapping({ ...mapping, [field.id]: val === NOT_MAPPED ? null : Number(val) })}
+              >
+                <Ariakit.Select className="select-trigger">{column === null ? 'Not in file' : headers[column] || `Column ${column + 1}`}</Ariakit.Select>
+                <Ariakit.SelectPopover gutter={4} sameWidth className="select-popover">
+                  <Ariakit.SelectItem value={NOT_MAPPED} className="combobox-item">Not in file</Ariakit.SelectItem>
+                  {headers.map((header, idx) => (
+                    <Ariakit.SelectItem key={idx} value={String(idx)} className="combobox-item">{header || `Column ${idx + 1}`}</Ariakit.SelectItem>
+                  ))}
+                </Ariakit.SelectPopover>
+              </Ariakit.SelectProvider>
+            </div>
+          );
+        })}
+      </div>
+
+      {canImport ? (
+        <>
+          <div className="item-subtext" style={{ margin: '1rem 0 0.5rem' }}>
+            <span className="success">{summary.added} new</span> • <span className="cyan">{summary.updated} updated</span> • <span className="danger">{summary.skipped} skipped</span>
+          </div>
+          <div className="import-preview">
+            <table>
+              <thead>
+                <tr><th>Line</th><th></th><th>Name</th><th>SKU</th><th className="num">Cost</th><th></th></tr>
+              </thead>
+              <tbody>
+                {plan.slice(0, PREVIEW_ROWS).map(row => (
+                  <tr key={row.line} className={`import-${row.action}`}>
+                    <td className="text-dim">{row.line}</td>
+                    <td className="bold">{ACTION_LABELS[row.action]}</td>
+                    <td>{row.name || itemName(row.itemId)}</td>
+                    <td>{row.sku}</td>
+                    <td className="num">{Number.isNaN(row.cost) ? '' : money.format(row.cost)}</td>
+                    <td className="text-dim">{row.reason ?? (row.action === 'update' && row.name !== itemName(row.itemId) ? `Matches ${itemName(row.itemId)}` : '')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {plan.length > PREVIEW_ROWS && <div className="item-subtext">…and {plan.length - PREVIEW_ROWS} more rows</div>}
+          </div>
+        </>
+      ) : (
+        <div className="text-dim" style={{ margin: '1rem 0' }}>Map a Cost column and a Name or SKU column to preview the import.</div>
+      )}
+
+      <div className="card-actions" style={{ justifyContent: 'flex-end' }}>
+        <Button variant="secondary" size="sm" onClick={onCancel}>Cancel</Button>
+        <Button variant="primary" size="sm" disabled={!canImport || summary.added + summary.updated === 0} onClick={() => onApply(plan)}>
+          Import {summary.added + summary.updated} Items
+        </Button>
+      </div>
+    </div>
+  );
+};
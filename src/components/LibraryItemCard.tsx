@@ -0,0 +1,234 @@
+import * as Ariakit from '@ariakit/react';
+import type { LaborRole, MarkupPolicy, PersistentItem } from '../types';
+import { ITEM_UNITS } from '../types';
+import { calculateLine, describeMarkupSource, getItemMarkup, isAssembly, snapshotFromLibrary } from '../utils';
+import { useMoney } from '../moneyContext';
+import { Button, Input, TextArea } from './Shared';
+
+const RECENT_COST_CHANGES = 3;
+
+/** Inline editor for one item in the Settings tab's Item Library. */
+export const LibraryItemCard = ({ item, library, roles, markupPolicy, categories, onUpdate, onDelete }: {
+  item: PersistentItem;
+  /** The whole library, for picking assembly parts. */
+  library: PersistentItem[];
+  roles: LaborRole[];
+  markupPolicy: MarkupPolicy;
+  /** Existing categories, offered as suggestions. */
+  categories: string[];
+  onUpdate: (updates: Partial<PersistentItem>) => void;
+  onDelete: () => void;
+}) => {
+  const money = useMoney();
+  const units = ITEM_UNITS.includes(item.unit) ? ITEM_UNITS : [...ITEM_UNITS, item.unit];
+  const categoryListId = `categories-${item.id}`;
+  const assembly = isAssembly(item);
+  const partChoices = library.filter(i => i.id !== item.id && !isAssembly(i));
+  const rolledUp = assembly ? calculateLine(snapshotFromLibrary(item, markupPolicy, library), 1) : null;
+  // What the markup rules give the item when it has no custom markup
+  const ruleMarkup = getItemMarkup({ ...item, useCustomMarkup: false }, markupPolicy);
+  // Most recent cost changes, newest first
+  const recentChanges = item.costHistory.slice(-RECENT_COST_CHANGES).reverse();
+
+  return (
+    <div className="card" style={{ padding: '16px', background: 'rgba(255,255,255,0.02)', marginBottom: '1.5rem' }}>
+      <div className="flex-row align-center" style={{ marginBottom: '24px', gap: '10px' }}>
+        <div style={{ flex: 1 }}>
+          <Input
+            placeholder="Item Name"
+            value={item.name}
+            onChange={e => onUpdate({ name: e.target.value })}
+            containerClassName="no-margin"
+          />
+        </div>
+        <Input
+          placeholder="SKU"
+          value={item.sku}
+          onChange={e => onUpdate({ sku: e.target.value })}
+          containerClassName="no-margin"
+          style={{ width: '120px' }}
+        />
+        <Button variant="danger" size="sm" className="btn-icon" onClick={onDelete}>✕</Button>
+      </div>
+      <div className="hud-grid">
+        <div>
+          <div className="flex-row no-margin">
+            {rolledUp ? (
+              <Input
+                label="Cost (from parts)"
+                prefix={money.symbol}
+                value={rolledUp.cost.toFixed(2)}
+                className="input-dimmed"
+                containerClassName="flex-1"
+                disabled
+              />
+            ) : (
+              <Input
+                label="Cost"
+                type="number"
+                prefix={money.symbol}
+                value={item.cost || ''}
+                onChange={e => onUpdate({ cost: Number(e.target.value) })}
+                containerClassName="flex-1"
+              />
+            )}
+            <div className="field-group">
+              <label className="field-label">Per</label>
+              <Ariakit.SelectProvider value={item.unit} setValue={unit => onUpdate({ unit })}>
+                <Ariakit.Select className="select-trigger" style={{ minWidth: '80px' }}>{item.unit}</Ariakit.Select>
+                <Ariakit.SelectPopover gutter={4} className="select-popover">
+                  {units.map(unit => (
+                    <Ariakit.SelectItem key={unit} value={unit} className="combobox-item">{unit}</Ariakit.SelectItem>
+                  ))}
+                </Ariakit.SelectPopover>
+              </Ariakit.SelectProvider>
+            </div>
+          </div>
+          {!assembly && recentChanges.length > 0 && (
+            <div className="item-subtext" style={{ marginBottom: '8px' }}>
+              {recentChanges.map(change => `${change.date}: ${money.format(change.from)} → ${money.format(change.to)}`).join(' • ')}
+            </div>
+          )}
+          {!assembly && (
+            <Ariakit.CheckboxProvider
+              value={item.taxable}
+              setValue={val => onUpdate({ taxable: !!val })}
+            >
+              <Ariakit.Checkbox render={<label className="checkbox-row" />}>
+                <Ariakit.CheckboxCheck className="checkbox" />
+                <span className="field-label" style={{ marginBottom: 0 }}>Taxable</span>
+              </Ariakit.Checkbox>
+            </Ariakit.CheckboxProvider>
+          )}
+        </div>
+        {rolledUp ? (
+          <div className="field-group">
+            <label className="field-label">Price (from parts)</label>
+            <input className="input-field input-dimmed" value={`${money.format(rolledUp.price)}${item.labor.length > 0 ? " + labor" : ""}`} disabled />
+          </div>
+        ) : (
+          <div className="field-group">
+            <Ariakit.CheckboxProvider
+              value={item.useCustomMarkup}
+              setValue={val => onUpdate({ useCustomMarkup: !!val })}
+            >
+              <Ariakit.Checkbox render={<label className="checkbox-row" />}>
+                <Ariakit.CheckboxCheck className="checkbox" />
+                <span className="field-label" style={{ marginBottom: 0 }}>Custom Markup</span>
+              </Ariakit.Checkbox>
+            </Ariakit.CheckboxProvider>
+            {item.useCustomMarkup ? (
+              <input
+                className="input-field"
+                type="number"
+                value={item.customMarkup}
+                onChange={e => onUpdate({ customMarkup: Number(e.target.value) })}
+              />
+            ) : (
+              <input className="input-field input-dimmed" value={`${ruleMarkup.markup}% (${describeMarkupSource(ruleMarkup.source, money.format)})`} disabled />
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="assembly-editor">
+        <div className="flex-row no-margin align-center" style={{ justifyContent: 'space-between' }}>
+          <span className="field-label no-margin">{assembly ? 'Assembly' : 'Make this an assembly'}</span>
+          <div className="card-actions">
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={partChoices.length === 0}
+              onClick={() => onUpdate({ parts: [...item.parts, { itemId: partChoices[0].id, quantity: 1 }] })}
+            >
+              + Part
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={roles.length === 0}
+              onClick={() => onUpdate({ labor: [...item.labor, { roleId: roles[0].id, hours: 0 }] })}
+            >
+              + Labor
+            </Button>
+          </div>
+        </div>
+        {item.parts.map((part, idx) => {
+          const partItem = library.find(i => i.id === part.itemId);
+          return (
+            <div key={idx} className="flex-row no-margin align-center" style={{ marginTop: '8px' }}>
+              <Ariakit.SelectProvider
+                value={part.itemId}
+                setValue={itemId => onUpdate({ parts: item.parts.map((p, i) => i === idx ? { ...p, itemId } : p) })}
+              >
+                <Ariakit.Select className="select-trigger flex-1">{partItem ? partItem.name : 'Missing item'}</Ariakit.Select>
+                <Ariakit.SelectPopover gutter={4} sameWidth className="select-popover">
+                  {partChoices.map(choice => (
+                    <Ariakit.SelectItem key={choice.id} value={choice.id} className="combobox-item">{choice.name}</Ariakit.SelectItem>
+                  ))}
+                </Ariakit.SelectPopover>
+              </Ariakit.SelectProvider>
+              <Input
+                type="number"
+                value={part.quantity || ''}
+                className="input-qty"
+                containerClassName="no-margin"
+                style={{ width: '75px', textAlign: 'center' }}
+                onChange={e => onUpdate({ parts: item.parts.map((p, i) => i === idx ? { ...p, quantity: Number(e.target.value) } : p) })}
+              />
+              <span className="item-subtext" style={{ minWidth: '2.5rem' }}>{partItem?.unit}</span>
+              <Button variant="danger" size="sm" className="btn-icon" onClick={() => onUpdate({ parts: item.parts.filter((_, i) => i !== idx) })}>✕</Button>
+            </div>
+          );
+        })}
+        {item.labor.map((line, idx) => {
+          const role = roles.find(r => r.id === line.roleId);
+          return (
+            <div key={idx} className="flex-row no-margin align-center" style={{ marginTop: '8px' }}>
+              <Ariakit.SelectProvider
+                value={line.roleId}
+                setValue={roleId => onUpdate({ labor: item.labor.map((l, i) => i === idx ? { ...l, roleId } : l) })}
+              >
+                <Ariakit.Select className="select-trigger flex-1">{role ? `${role.name} labor` : 'Missing role'}</Ariakit.Select>
+                <Ariakit.SelectPopover gutter={4} sameWidth className="select-popover">
+                  {roles.map(r => (
+                    <Ariakit.SelectItem key={r.id} value={r.id} className="combobox-item">{r.name}</Ariakit.SelectItem>
+                  ))}
+                </Ariakit.SelectPopover>
+              </Ariakit.SelectProvider>
+              <Input
+                type="number"
+                value={line.hours || ''}
+                className="input-qty"
+                containerClassName="no-margin"
+                style={{ width: '75px', textAlign: 'center' }}
+                onChange={e => onUpdate({ labor: item.labor.map((l, i) => i === idx ? { ...l, hours: Number(e.target.value) } : l) })}
+              />
+              <span className="item-subtext" style={{ minWidth: '2.5rem' }}>hrs</span>
+              <Button variant="danger" size="sm" className="btn-icon" onClick={() => onUpdate({ labor: item.labor.filter((_, i) => i !== idx) })}>✕</Button>
+            </div>
+          );
+        })}
+      </div>
+      <div className="hud-grid">
+        <Input
+          label="Category"
+          list={categoryListId}
+          value={item.category}
+          onChange={e => onUpdate({ category: e.target.value })}
+        />
+        <Input label="Supplier" value={item.supplier} onChange={e => onUpdate({ supplier: e.target.value })} />
+      </div>
+      <datalist id={categoryListId}>
+        {categories.map(category => <option key={category} value={category} />)}
+      </datalist>
+      <TextArea
+        label="Notes"
+        rows={2}
+        value={item.notes}
+        onChange={e => onUpdate({ notes: e.target.value })}
+        containerClassName="no-margin"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import type { CategoryMarkup, CostBracket, MarkupRules } from '../types';
+import { generateId } from '../utils';
+import { useMoney } from '../moneyContext';
+import { Button, Card, Input } from './Shared';
+
+/** Settings card for category and cost bracket markups. */
+export const MarkupRulesCard = ({ rules, categories, onChange }: {
+  rules: MarkupRules;
+  /** Library categories, offered as suggestions. */
+  categories: string[];
+  onChange: (rules: MarkupRules) => void;
+}) => {
+  const money = useMoney();
+
+  const updateCategory = (id: string, updates: Partial<CategoryMarkup>) => {
+    onChange({ ...rules, categories: rules.categories.map(rule => rule.id === id ? { ...rule, ...updates } : rule) });
+  };
+
+  const updateBracket = (id: string, updates: Partial<CostBracket>) => {
+    onChange({ ...rules, brackets: rules.brackets.map(bracket => bracket.id === id ? { ...bracket, ...updates } : bracket) });
+  };
+
+  // A new bracket picks up where the last one ends
+  const handleAddBracket = () => {
+    const last = rules.brackets[rules.brackets.length - 1];
+    const min = last ? last.max ?? last.min : 0;
+    onChange({ ...rules, brackets: [...rules.brackets, { id: generateId(), min, max: null, markup: 0 }] });
+  };
+
+  return (
+    <Card title="Markup Rules">
+      <div className="text-dim" style={{ marginBottom: '1rem' }}>
+        An item's custom markup always wins. Otherwise its category markup applies, then the first cost bracket
+        its unit cost falls in, then the global markup.
+      </div>
+
+      <div className="flex-row no-margin align-center" style={{ justifyContent: 'space-between' }}>
+        <span className="field-label no-margin">By Category</span>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => onChange({ ...rules, categories: [...rules.categories, { id: generateId(), category: '', markup: 0 }] })}
+        >
+          + Category
+        </Button>
+      </div>
+      <div className="items-list">
+        {rules.categories.map(rule => (
+          <div key={rule.id} className="flex-row no-margin" style={{ marginTop: '8px' }}>
+            <Input
+              label="Category"
+              list="markup-categories"
+              value={rule.category}
+              onChange={e => updateCategory(rule.id, { category: e.target.value })}
+              containerClassName="flex-1"
+            />
+            <Input
+              label="Markup (%)"
+              type="number"
+              className="w-3-digit"
+              value={rule.markup}
+              onChange={e => updateCategory(rule.id, { markup: Number(e.target.value) })}
+            />
+            <Button
+              variant="danger"
+              size="sm"
+              className="btn-icon"
+              style={{ marginBottom: '2px' }}
+              onClick={() => onChange({ ...rules, categories: rules.categories.filter(r => r.id !== rule.id) })}
+            >
+              ✕
+            </Button>
+          </div>
+        ))}
+      </div>
+      <datalist id="markup-categories">
+        {categories.map(category => <option key={category} value={category} />)}
+      </datalist>
+
+      <div className="divider" />
+
+      <div className="flex-row no-margin align-center" style={{ justifyContent: 'space-between' }}>
+        <span className="field-label no-margin">By Unit Cost</span>
+        <Button variant="secondary" size="sm" onClick={handleAddBracket}>+ Bracket</Button>
+      </div>
+      <div className="items-list">
+        {rules.brackets.map(bracket => (
+          <div key={bracket.id} className="flex-row no-margin" style={{ marginTop: '8px' }}>
+            <Input
+              label="From"
+              type="number"
+              className="w-3-digit"
+              prefix={money.symbol}
+              value={bracket.min}
+              onChange={e => updateBracket(bracket.id, { min: Number(e.target.value) })}
+            />
+            <Input
+              label="Up To"
+              type="number"
+              className="w-3-digit"
+              prefix={money.symbol}
+              placeholder="No limit"
+              value={bracket.max ?? ''}
+              onChange={e => updateBracket(bracket.id, { max: e.target.value === '' ? null : Number(e.target.value) })}
+            />
+            <Input
+              label="Markup (%)"
+              type="number"
+              className="w-3-digit"
+              value={bracket.markup}
+              onChange={e => updateBracket(bracket.id, { markup: Number(e.target.value) })}
+            />
+            <Button
+              variant="danger"
+              size="sm"
+              className="btn-icon"
+              style={{ marginBottom: '2px' }}
+              onClick={() => onChange({ ...rules, brackets: rules.brackets.filter(b => b.id !== bracket.id) })}
+            >
+              ✕
+            </Button>
+          </div>
+        ))}
+      </div>
+      {rules.brackets.length > 0 && (
+        <div className="text-dim" style={{ marginTop: '0.5rem' }}>
+          Each bracket includes its From amount and stops just below Up To. Costs outside every bracket use the global markup.
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,82 @@
+import type { LaborRole, PricingProfile, ProfileRoleRate } from '../types';
+import { useMoney } from '../moneyContext';
+import { Button, Input } from './Shared';
+
+/** Inline editor for one pricing profile in the Settings tab. */
+export const PricingProfileCard = ({ profile, roles, onUpdate, onDelete }: {
+  profile: PricingProfile;
+  /** Standard labor roles; the profile can set its own wage and bill rate for each. */
+  roles: LaborRole[];
+  onUpdate: (updates: Partial<PricingProfile>) => void;
+  onDelete: () => void;
+}) => {
+  const money = useMoney();
+
+  const rateFor = (role: LaborRole): ProfileRoleRate => {
+    return profile.roleRates.find(r => r.roleId === role.id) ?? { roleId: role.id, wage: role.wage, billRate: role.billRate };
+  };
+
+  const updateRoleRate = (role: LaborRole, updates: Partial<ProfileRoleRate>) => {
+    const rate = { ...rateFor(role), ...updates };
+    const others = profile.roleRates.filter(r => r.roleId !== role.id);
+    onUpdate({ roleRates: [...others, rate] });
+  };
+
+  return (
+    <div className="card" style={{ padding: '16px', background: 'rgba(255,255,255,0.02)', marginBottom: '1.5rem' }}>
+      <div className="flex-row align-center" style={{ gap: '10px' }}>
+        <div style={{ flex: 1 }}>
+          <Input
+            placeholder="Profile Name"
+            value={profile.name}
+            onChange={e => onUpdate({ name: e.target.value })}
+            containerClassName="no-margin"
+          />
+        </div>
+        <Button variant="danger" size="sm" className="btn-icon" onClick={onDelete}>✕</Button>
+      </div>
+      <div className="hud-grid">
+        <Input
+          label="Target Hourly"
+          type="number"
+          prefix={money.symbol}
+          value={profile.targetHourly}
+          onChange={e => onUpdate({ targetHourly: Number(e.target.value) })}
+        />
+        <Input
+          label="Global Markup (%)"
+          type="number"
+          value={profile.globalMarkup}
+          onChange={e => onUpdate({ globalMarkup: Number(e.target.value) })}
+        />
+      </div>
+      {roles.map(role => {
+        const rate = rateFor(role);
+        return (
+          <div key={role.id} className="flex-row no-margin align-center" style={{ marginTop: '8px' }}>
+            <span className="item-name flex-1">{role.name}</span>
+            <Input
+              label="Wage"
+              type="number"
+              className="w-3-digit"
+              prefix={money.symbol}
+              value={rate.wage}
+              onChange={e => updateRoleRate(role, { wage: Number(e.target.value) })}
+              containerClassName="no-margin"
+            />
+            <Input
+              label="Bill Rate"
+              type="number"
+              className="w-3-digit"
+              prefix={money.symbol}
+              placeholder={String(profile.targetHourly)}
+              value={rate.billRate ?? ''}
+              onChange={e => updateRoleRate(role, { billRate: e.target.value === '' ? null : Number(e.target.value) })}
+              containerClassName="no-margin"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,328 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import type { BusinessProfile, CustomerDetails, DocumentView } from '../types';
+import type { LaborBreakdown, PricedLine, QuoteTotals, TaxBreakdown } from '../utils';
+import { formatDiscount, formatQuantity } from '../utils';
+import type { QuoteOptionsSummary } from '../options';
+import { useMoney } from '../moneyContext';
+import { Button } from './Shared';
+
+export interface DocumentOptions extends QuoteOptionsSummary {
+  /** Option the line-by-line figures are for. */
+  shownId: string;
+  /** Option the customer accepted, if any. */
+  chosenId?: string;
+}
+
+interface QuoteDocumentProps {
+  business: BusinessProfile;
+  customer: CustomerDetails;
+  quoteName: string;
+  date: string;
+  /** Everything the document shows is read from here, so it always agrees with the quote. */
+  totals: QuoteTotals;
+  /** Present when the customer chooses between options; the other figures are for the shown one. */
+  options?: DocumentOptions;
+}
+
+const TaxRows = ({ tax }: { tax: TaxBreakdown }) => {
+  const money = useMoney();
+  return (
+    <>
+      {tax.lines.map((line, idx) => (
+        <div key={idx}><span>{line.name} ({line.rate}%)</span><span>{money.format(line.amount)}</span></div>
+      ))}
+    </>
+  );
+};
+
+const AdjustmentRow = ({ adjustment }: { adjustment: number }) => {
+  const money = useMoney();
+  if (adjustment === 0) return null;
+  return <div><span>Adjustment</span><span>{adjustment < 0 ? '-' : ''}{money.format(Math.abs(adjustment))}</span></div>;
+};
+
+/** Quote-level charges between the discount and the subtotal, in the order they are applied. */
+const ChargeRows = ({ adjustment, tripCharge, priceRounding, minimumCharge }: Pick<QuoteTotals, 'adjustment' | 'tripCharge' | 'priceRounding' | 'minimumCharge'>) => {
+  const money = useMoney();
+  return (
+    <>
+      <AdjustmentRow adjustment={adjustment} />
+      {tripCharge > 0 && <div><span>Trip Charge</span><span>{money.format(tripCharge)}</span></div>}
+      {priceRounding > 0 && <div><span>Rounding</span><span>{money.format(priceRounding)}</span></div>}
+      {minimumCharge > 0 && <div><span>Minimum Job Charge</span><span>{money.format(minimumCharge)}</span></div>}
+    </>
+  );
+};
+
+const DocumentHeader = ({ business, quoteName, date, title }: {
+  business: BusinessProfile;
+  quoteName: string;
+  date: string;
+  title: string;
+}) => (
+  <header className="doc-header">
+    <div className="doc-business">
+      {business.logo && <img src={business.logo} alt="" className="doc-logo" />}
+      <div>
+        <div className="doc-business-name">{business.name || 'Your Business'}</div>
+        {business.address && <div className="doc-pre">{business.address}</div>}
+        {business.phone && <div>{business.phone}</div>}
+        {business.email && <div>{business.email}</div>}
+      </div>
+    </div>
+    <div className="doc-meta">
+      <div className="doc-title">{title}</div>
+      {quoteName && <div>{quoteName}</div>}
+      <div>{date}</div>
+    </div>
+  </header>
+);
+
+const CustomerLinesTable = ({ lines, labor }: { lines: PricedLine[]; labor?: LaborBreakdown }) => {
+  const money = useMoney();
+  return (
+    <table className="doc-table">
+      <thead>
+        <tr>
+          <th>Description</th>
+          <th className="num">Qty</th>
+          <th className="num">Unit Price</th>
+          <th className="num">Amount</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lines.map(line => (
+          <tr key={line.index}>
+            <td>
+              {line.pricing.name}
+              {line.discount > 0 && line.item.discount && (
+                <div className="doc-note">Discount {formatDiscount(line.item.discount, money.format)} (-{money.format(line.discount)})</div>
+              )}
+            </td>
+            <td className="num">{formatQuantity(line.item.quantity, line.pricing.unit)}</td>
+            <td className="num">{money.format(line.item.quantity ? line.listPrice / line.item.quantity : 0)}</td>
+            <td className="num">{money.format(line.price)}</td>
+          </tr>
+        ))}
+        {labor && labor.hours > 0 && (
+          <tr>
+            <td>Labor</td>
+            <td className="num" />
+            <td className="num" />
+            <td className="num">{money.format(labor.price)}</td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+};
+
+const CustomerTotals = ({ totals, totalLabel = 'Total' }: { totals: QuoteTotals; totalLabel?: string }) => {
+  const money = useMoney();
+  const { materials, labor, quoteDiscount, adjustment, tripCharge, priceRounding, minimumCharge, subtotal, tax, total } = totals;
+  return (
+    <div className="doc-totals">
+      <div><span>Materials</span><span>{money.format(materials.price)}</span></div>
+      <div><span>Labor</span><span>{money.format(labor.price)}</span></div>
+      {quoteDiscount > 0 && <div><span>Discount</span><span>-{money.format(quoteDiscount)}</span></div>}
+      <ChargeRows adjustment={adjustment} tripCharge={tripCharge} priceRounding={priceRounding} minimumCharge={minimumCharge} />
+      {tax.lines.length > 0 && <div><span>Subtotal</span><span>{money.format(subtotal)}</span></div>}
+      <TaxRows tax={tax} />
+      <div className="doc-grand-total"><span>{totalLabel}</span><span>{money.format(total)}</span></div>
+    </div>
+  );
+};
+
+/** Sell-price-only document that can be handed to the customer. */
+export const CustomerQuoteDocument = ({ business, customer, quoteName, date, options, totals }: QuoteDocumentProps) => {
+  const hasCustomer = Object.values(customer).some(Boolean);
+  return (
+    <article className="doc-paper">
+      <DocumentHeader business={business} quoteName={quoteName} date={date} title="Quote" />
+
+      {hasCustomer && (
+        <section className="doc-section">
+          <div className="doc-label">Prepared For</div>
+          {customer.name && <div className="bold">{customer.name}</div>}
+          {customer.address && <div className="doc-pre">{customer.address}</div>}
+          {customer.phone && <div>{customer.phone}</div>}
+          {customer.email && <div>{customer.email}</div>}
+        </section>
+      )}
+
+      {options ? (
+        <>
+          {options.shared.length > 0 && (
+            <section className="doc-section">
+              <div className="doc-label">Included in Every Option</div>
+              <CustomerLinesTable lines={options.shared} />
+            </section>
+          )}
+          {options.options.map(option => (
+            <section key={option.id} className="doc-section doc-option">
+              <div className="doc-option-header">
+                <span className="doc-option-name">{option.name}</span>
+                {options.chosenId === option.id
+                  ? <span className="doc-label">Accepted</span>
+                  : !options.chosenId && <span className="doc-checkbox" aria-label="Choose this option" />}
+              </div>
+              <CustomerLinesTable lines={option.lines} labor={option.totals.labor} />
+              <CustomerTotals totals={option.totals} totalLabel={`${option.name} Total`} />
+            </section>
+          ))}
+        </>
+      ) : (
+        <>
+          <CustomerLinesTable lines={totals.lines} labor={totals.labor} />
+          <CustomerTotals totals={totals} />
+        </>
+      )}
+
+      {business.terms && (
+        <section className="doc-section">
+          <div className="doc-label">Terms</div>
+          <div className="doc-pre">{business.terms}</div>
+        </section>
+      )}
+
+      <section className="doc-signature">
+        <div><div className="doc-sign-line" />{options && !options.chosenId ? 'Accepted By (tick one option)' : 'Accepted By'}</div>
+        <div><div className="doc-sign-line" />Date</div>
+      </section>
+    </article>
+  );
+};
+
+/** Full cost, profit and margin breakdown for our own records. */
+export const InternalQuoteDocument = ({
+  business, customer, quoteName, date, totals, options,
+}: QuoteDocumentProps) => {
+  const money = useMoney();
+  const { lines, labor, quoteDiscount, discountTotal, adjustment, tripCharge, priceRounding, minimumCharge, burden, overhead, tax } = totals;
+
+  return (
+    <article className="doc-paper">
+      <DocumentHeader business={business} quoteName={quoteName} date={date} title="Internal Breakdown" />
+      {customer.name && <div className="doc-section"><span className="doc-label">Customer</span> {customer.name}</div>}
+
+      {options && (
+        <table className="doc-table">
+          <thead>
+            <tr>
+              <th>Option</th>
+              <th className="num">Cost</th>
+              <th className="num">Profit</th>
+              <th className="num">Margin</th>
+              <th className="num">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {options.options.map(option => (
+              <tr key={option.id}>
+                <td>
+                  {option.name}
+                  {option.id === options.chosenId && <span className="doc-note"> • accepted</span>}
+                  {option.id === options.shownId && <span className="doc-note"> • broken down below</span>}
+                </td>
+                <td className="num">{money.format(option.totals.cost)}</td>
+                <td className="num">{money.format(option.totals.profit)}</td>
+                <td className="num">{option.totals.margin.toFixed(1)}%</td>
+                <td className="num">{money.format(option.totals.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <table className="doc-table">
+        <thead>
+          <tr>
+            <th>Line</th>
+            <th className="num">Qty</th>
+            <th className="num">Cost</th>
+            <th className="num">Markup</th>
+            <th className="num">Discount</th>
+            <th className="num">Profit</th>
+            <th className="num">Price</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map(line => (
+            <tr key={line.index}>
+              <td>
+                {line.pricing.name}
+                {line.pricing.parts?.map((part, idx) => (
+                  <div key={idx} className="doc-note">{formatQuantity(part.quantity * line.item.quantity, part.snapshot.unit)} {part.snapshot.name}</div>
+                ))}
+              </td>
+              <td className="num">{formatQuantity(line.item.quantity, line.pricing.unit)}</td>
+              <td className="num">{money.format(line.cost)}</td>
+              <td className="num">{line.pricing.markup}%</td>
+              <td className="num">{line.discount > 0 ? `-${money.format(line.discount)}` : ''}</td>
+              <td className="num">{money.format(line.price - line.cost)}</td>
+              <td className="num">{money.format(line.price)}</td>
+            </tr>
+          ))}
+          {labor.lines.map(line => (
+            <tr key={`labor-${line.index}`}>
+              <td>Labor: {line.role.name}</td>
+              <td className="num">{line.line.hours} hrs</td>
+              <td className="num">{money.format(line.cost)}</td>
+              <td className="num" />
+              <td className="num" />
+              <td className="num">{money.format(line.price - line.cost)}</td>
+              <td className="num">{money.format(line.price)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="doc-totals">
+        {quoteDiscount > 0 && <div><span>Quote Discount</span><span>-{money.format(quoteDiscount)}</span></div>}
+        {discountTotal > 0 && <div><span>Total Discounts</span><span>-{money.format(discountTotal)}</span></div>}
+        <ChargeRows adjustment={adjustment} tripCharge={tripCharge} priceRounding={priceRounding} minimumCharge={minimumCharge} />
+        {burden > 0 && <div><span>Payroll Burden</span><span>{money.format(burden)}</span></div>}
+        {overhead > 0 && <div><span>Overhead</span><span>{money.format(overhead)}</span></div>}
+        <div><span>Total Cost</span><span>{money.format(totals.cost)}</span></div>
+        <div><span>Net Profit</span><span>{money.format(totals.profit)}</span></div>
+        <div><span>Margin</span><span>{totals.margin.toFixed(1)}%</span></div>
+        {tax.lines.length > 0 && <div><span>Subtotal</span><span>{money.format(totals.subtotal)}</span></div>}
+        <TaxRows tax={tax} />
+        <div className="doc-grand-total"><span>Total Amount</span><span>{money.format(totals.total)}</span></div>
+      </div>
+    </article>
+  );
+};
+
+const VIEW_LABELS: Record<DocumentView, string> = {
+  customer: 'Customer',
+  internal: 'Internal',
+};
+
+export const QuoteDocumentViewer = ({ onClose, actions, views = ['customer', 'internal'], ...props }: QuoteDocumentProps & {
+  onClose: () => void;
+  /** Extra toolbar buttons, e.g. for a saved quote opened read-only. */
+  actions?: ReactNode;
+  /** Copies that can be shown, the first one initially. */
+  views?: DocumentView[];
+}) => {
+  const [view, setView] = useState<DocumentView>(views[0]);
+  return (
+    <div className="doc-overlay">
+      <div className="doc-toolbar">
+        <div className="card-actions">
+          {views.length > 1 && views.map(v => (
+            <Button key={v} variant={view === v ? 'primary' : 'secondary'} size="sm" onClick={() => setView(v)}>{VIEW_LABELS[v]}</Button>
+          ))}
+        </div>
+        <div className="card-actions">
+          {actions}
+          <Button variant="secondary" size="sm" onClick={() => window.print()}>Print / Save PDF</Button>
+          <Button variant="danger" size="sm" onClick={onClose}>Close</Button>
+        </div>
+      </div>
+      {view === 'customer' ? <CustomerQuoteDocument {...props} /> : <InternalQuoteDocument {...props} />}
+    </div>
+  );
+};
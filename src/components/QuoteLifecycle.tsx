@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import type { QuoteStatus, SavedQuote } from '../types';
+import { QUOTE_STATUSES, STATUS_LABELS } from '../types';
+import { withStatus } from '../utils';
+import { withChosenOption } from '../history';
+import { Button, Input } from './Shared';
+
+export const StatusBadge = ({ status }: { status: QuoteStatus }) => (
+  <span className={`status-badge status-${status}`}>{STATUS_LABELS[status]}</span>
+);
+
+/** Status, dates and change log for one saved quote, shown under its History row. */
+export const QuoteLifecycle = ({ quote, onChange }: {
+  quote: SavedQuote;
+  onChange: (quote: SavedQuote) => void;
+}) => {
+  // Accepting a quote with options waits until we know which one the customer took
+  const [choosingOption, setChoosingOption] = useState(false);
+  const options = quote.options ?? [];
+
+  const handleStatus = (status: QuoteStatus) => {
+    if (status === 'accepted' && options.length > 0 && quote.status !== 'accepted') {
+      setChoosingOption(true);
+      return;
+    }
+    setChoosingOption(false);
+    onChange(withStatus(quote, status));
+  };
+
+  const handleChooseOption = (optionId: string) => {
+    setChoosingOption(false);
+    onChange(withStatus(withChosenOption(quote, optionId), 'accepted'));
+  };
+
+  return (
+    <div className="lifecycle-panel">
+      <div className="field-label">Status</div>
+      <div className="card-actions" style={{ marginBottom: '1rem' }}>
+        {QUOTE_STATUSES.map(status => (
+          <Button
+            key={status}
+            variant={quote.status === status ? 'primary' : 'secondary'}
+            size="sm"
+            onClick={() => handleStatus(status)}
+          >
+            {STATUS_LABELS[status]}
+          </Button>
+        ))}
+      </div>
+      {(choosingOption || (quote.status === 'accepted' && options.length > 0)) && (
+        <>
+          <div className="field-label">{choosingOption ? 'Which option did the customer accept?' : 'Accepted Option'}</div>
+          <div className="card-actions" style={{ marginBottom: '1rem' }}>
+            {options.map(option => (
+              <Button
+                key={option.id}
+                variant={!choosingOption && quote.chosenOptionId === option.id ? 'primary' : 'secondary'}
+                size="sm"
+                onClick={() => handleChooseOption(option.id)}
+              >
+                {option.name || 'Unnamed option'}
+              </Button>
+            ))}
+            {choosingOption && <Button variant="ghost" size="sm" onClick={() => setChoosingOption(false)}>Cancel</Button>}
+          </div>
+        </>
+      )}
+      <div className="flex-row no-margin">
+        <Input
+          label="Expires On"
+          type="date"
+          value={quote.expiresOn ?? ''}
+          onChange={e => onChange({ ...quote, expiresOn: e.target.value || undefined })}
+        />
+        <Input
+          label="Follow Up On"
+          type="date"
+          value={quote.followUpOn ?? ''}
+          onChange={e => onChange({ ...quote, followUpOn: e.target.value || undefined })}
+        />
+      </div>
+      <div className="divider" />
+      <div className="field-label">History</div>
+      <div className="hud-stats">
+        {[...quote.statusHistory].reverse().map((change, idx) => (
+          <div key={idx} className="hud-row">
+            <StatusBadge status={change.status} />
+            <span className="item-subtext">{new Date(change.at).toLocaleString()}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
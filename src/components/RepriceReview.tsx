@@ -0,0 +1,112 @@
+import type { LaborLine, LaborRates } from '../types';
+import type { RepriceLine } from '../utils';
+import { buildPricedLaborLines, calculateLine, formatQuantity, getBillRate } from '../utils';
+import { useMoney } from '../moneyContext';
+import { Button, Card } from './Shared';
+
+interface DiffRow {
+  key: string;
+  name: string;
+  detail: string;
+  oldPrice: number;
+  newPrice: number;
+}
+
+const Delta = ({ value }: { value: number }) => {
+  const money = useMoney();
+  if (Math.abs(value) < 0.005) return <span className="mono-val text-dim">±{money.format(0)}</span>;
+  // A price increase is shown as danger: the saved quote was undercharging.
+  return (
+    <span className={`mono-val ${value > 0 ? 'danger' : 'success'}`}>
+      {value > 0 ? '+' : '-'}{money.format(Math.abs(value))}
+    </span>
+  );
+};
+
+export const RepriceReview = ({ lines, laborLines, oldLabor, newLabor, tax, onApply, onCancel }: {
+  lines: RepriceLine[];
+  laborLines: LaborLine[];
+  oldLabor: LaborRates | null;
+  newLabor: LaborRates;
+  tax: { oldAmount: number; newAmount: number };
+  onApply: () => void;
+  onCancel: () => void;
+}) => {
+  const money = useMoney();
+  const rows: DiffRow[] = lines.map(line => ({
+    key: String(line.index),
+    name: line.name,
+    detail: line.newPricing
+      ? `${formatQuantity(line.quantity, line.oldPricing.unit)} • Cost ${money.format(line.oldPricing.unitCost)} → ${money.format(line.newPricing.unitCost)} | ${line.oldPricing.markup}% → ${line.newPricing.markup}%`
+      : `${formatQuantity(line.quantity, line.oldPricing.unit)} • No longer in library, keeps saved price`,
+    oldPrice: calculateLine(line.oldPricing, line.quantity).price,
+    newPrice: calculateLine(line.newPricing ?? line.oldPricing, line.quantity).price,
+  }));
+
+  if (oldLabor) {
+    const newLines = buildPricedLaborLines(laborLines, newLabor);
+    buildPricedLaborLines(laborLines, oldLabor).forEach(oldLine => {
+      const newLine = newLines.find(l => l.index === oldLine.index);
+      const oldRate = getBillRate(oldLine.role, oldLabor.targetHourly);
+      rows.push({
+        key: `labor-${oldLine.index}`,
+        name: `${oldLine.role.name} (${oldLine.line.hours} hrs)`,
+        detail: newLine
+          ? `Rate ${money.format(oldRate)} → ${money.format(getBillRate(newLine.role, newLabor.targetHourly))} | Cost ${money.format(oldLine.cost)} → ${money.format(newLine.cost)}`
+          : 'Role no longer exists in settings',
+        oldPrice: oldLine.price,
+        newPrice: newLine ? newLine.price : 0,
+      });
+    });
+  }
+
+  if (tax.oldAmount !== 0 || tax.newAmount !== 0) {
+    rows.push({
+      key: 'tax',
+      name: 'Sales Tax',
+      detail: 'Saved tax rates → current tax settings',
+      oldPrice: tax.oldAmount,
+      newPrice: tax.newAmount,
+    });
+  }
+
+  const oldTotal = rows.reduce((sum, row) => sum + row.oldPrice, 0);
+  const newTotal = rows.reduce((sum, row) => sum + row.newPrice, 0);
+
+  return (
+    <Card title="Reprice with Current Library">
+      <div className="items-list">
+        {rows.map(row => (
+          <div key={row.key} className="item-row align-center">
+            <div className="item-name-col">
+              <span className="item-name">{row.name}</span>
+              <span className="item-subtext">{row.detail}</span>
+            </div>
+            <div className="item-meta-col">
+              <div style={{ textAlign: 'right' }}>
+                <div className="item-subtext">Old → New</div>
+                <div className="mono-val">{money.format(row.oldPrice)} → {money.format(row.newPrice)}</div>
+              </div>
+              <div style={{ textAlign: 'right', minWidth: '80px' }}>
+                <Delta value={row.newPrice - row.oldPrice} />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="divider" />
+      <div className="flex-row no-margin align-center" style={{ justifyContent: 'space-between' }}>
+        <div>
+          <div className="item-subtext">Total Change</div>
+          <div className="mono-val bold">
+            {money.format(oldTotal)} → {money.format(newTotal)} <Delta value={newTotal - oldTotal} />
+          </div>
+        </div>
+        <div className="card-actions">
+          <Button variant="secondary" onClick={onCancel}>Cancel</Button>
+          <Button variant="primary" onClick={onApply}>Apply</Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
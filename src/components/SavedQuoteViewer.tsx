@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import type { ReactNode } from 'react';
+import type { BusinessProfile, DocumentView, SavedQuote } from '../types';
+import { EMPTY_CUSTOMER } from '../types';
+import { calculateSavedQuoteTotals, pricedOptionOf, priceSavedOptions } from '../history';
+import { QuoteDocumentViewer } from './QuoteDocument';
+
+/** Read-only document for a quote from history or a share link, priced from its own snapshots. */
+export const SavedQuoteViewer = ({ quote, business, views, actions, onClose }: {
+  quote: SavedQuote;
+  business: BusinessProfile;
+  views?: DocumentView[];
+  actions?: ReactNode;
+  onClose: () => void;
+}) => {
+  const totals = useMemo(() => calculateSavedQuoteTotals(quote), [quote]);
+  const options = useMemo(() => quote.options?.length ? priceSavedOptions(quote) : null, [quote]);
+  return (
+    <QuoteDocumentViewer
+      business={business}
+      customer={quote.customer ?? EMPTY_CUSTOMER}
+      quoteName={quote.name}
+      date={quote.date}
+      totals={totals}
+      options={options ? { ...options, shownId: pricedOptionOf(quote)?.id ?? '', chosenId: quote.chosenOptionId } : undefined}
+      views={views}
+      actions={actions}
+      onClose={onClose}
+    />
+  );
+};
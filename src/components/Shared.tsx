@@ -48,6 +48,32 @@ export const Input = React.forwardRef<HTMLInputElement, InputProps>(
   }
 );
 
+interface TextAreaProps extends React.TextareaHTMLAttributes<HTMLTextAreaElement> {
+  label?: string;
+  id?: string;
+  containerClassName?: string;
+}
+
+export const TextArea = React.forwardRef<HTMLTextAreaElement, TextAreaProps>(
+  ({ label, id, className, containerClassName, ...props }, ref) => {
+    return (
+      <div className={`field-group ${containerClassName || ""}`}>
+        {label && (
+          <label htmlFor={id} className="field-label">
+            {label}
+          </label>
+        )}
+        <textarea
+          ref={ref}
+          id={id}
+          className={`input-field textarea-field ${className || ""}`}
+          {...props}
+        />
+      </div>
+    );
+  }
+);
+
 export const Card = ({ children, title, className, actions }: { 
   children: React.ReactNode; 
   title?: string; 
@@ -65,6 +91,31 @@ export const Card = ({ children, title, className, actions }: {
   </section>
 );
 
-export const Toast = ({ message, type = "success" }: { message: string; type?: "success" | "error" }) => (
-  <div className={`toast toast-${type}`}>{message}</div>
+export const Toast = ({ message, type = "success", action }: {
+  message: string;
+  type?: "success" | "error";
+  action?: { label: string; onClick: () => void };
+}) => (
+  <div className={`toast toast-${type}`}>
+    {message}
+    {action && <button type="button" className="toast-action" onClick={action.onClick}>{action.label}</button>}
+  </div>
+);
+
+export const ErrorReport = ({ title, errors, onDismiss }: {
+  title: string;
+  errors: string[];
+  onDismiss: () => void;
+}) => (
+  <div className="error-report" role="alert">
+    <div className="error-report-header">
+      <span className="bold">{title}</span>
+      <Button variant="secondary" size="sm" onClick={onDismiss}>Dismiss</Button>
+    </div>
+    <ul className="error-report-list">
+      {errors.map((error, idx) => (
+        <li key={idx} className="mono-val">{error}</li>
+      ))}
+    </ul>
+  </div>
 );
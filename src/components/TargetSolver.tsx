@@ -0,0 +1,100 @@
+import { useMemo, useState } from 'react';
+import type { QuoteOverrides } from '../types';
+import type { QuoteInput } from '../utils';
+import { hasOverrides } from '../utils';
+import { solveForTarget } from '../solver';
+import type { SolverLever, SolverTarget } from '../solver';
+import { useMoney } from '../moneyContext';
+import type { MoneyFormatter } from '../money';
+import { Button, Card, Input } from './Shared';
+
+const LEVERS: { id: SolverLever; label: string }[] = [
+  { id: 'markup', label: 'Markup' },
+  { id: 'hourlyRate', label: 'Hourly Rate' },
+  { id: 'adjustment', label: 'Adjustment' },
+];
+
+const describeLever = (lever: SolverLever, value: number, money: MoneyFormatter) => {
+  if (lever === 'markup') return `Material markup ${value.toFixed(2)}%`;
+  if (lever === 'hourlyRate') return `Hourly rate ${money.format(value)}`;
+  return `Adjustment ${value < 0 ? '-' : '+'}${money.format(Math.abs(value))}`;
+};
+
+/** Back-calculates a pricing lever for this quote only; global settings are never touched. */
+export const TargetSolver = ({ input, onApply }: {
+  input: QuoteInput;
+  onApply: (overrides: QuoteOverrides) => void;
+}) => {
+  const money = useMoney();
+  const [target, setTarget] = useState<SolverTarget>('margin');
+  const [targetValue, setTargetValue] = useState(35);
+  const [lever, setLever] = useState<SolverLever>('markup');
+
+  const result = useMemo(() => solveForTarget(input, target, targetValue, lever), [input, target, targetValue, lever]);
+  const { overrides } = input;
+
+  return (
+    <Card title="Target Solver">
+      <div className="flex-row no-margin align-center" style={{ marginBottom: '1rem' }}>
+        <div className="card-actions">
+          <Button variant={target === 'margin' ? 'primary' : 'secondary'} size="sm" onClick={() => setTarget('margin')}>Margin %</Button>
+          <Button variant={target === 'price' ? 'primary' : 'secondary'} size="sm" onClick={() => setTarget('price')}>Total $</Button>
+        </div>
+        <Input
+          type="number"
+          className="w-3-digit"
+          prefix={target === 'price' ? money.symbol : undefined}
+          value={targetValue || ''}
+          onChange={e => setTargetValue(Number(e.target.value))}
+        />
+      </div>
+      <div className="field-label">Adjust</div>
+      <div className="card-actions" style={{ marginBottom: '1rem' }}>
+        {LEVERS.map(l => (
+          <Button key={l.id} variant={lever === l.id ? 'primary' : 'secondary'} size="sm" onClick={() => setLever(l.id)}>{l.label}</Button>
+        ))}
+      </div>
+
+      {result.ok ? (
+        <div className="flex-row no-margin align-center" style={{ justifyContent: 'space-between' }}>
+          <div>
+            <div className="mono-val bold">{describeLever(result.lever, result.value, money)}</div>
+            <div className="item-subtext">
+              Pre-tax {money.format(result.totals.subtotal)} • Margin {result.totals.margin.toFixed(1)}% • Profit {money.format(result.totals.profit)}
+            </div>
+          </div>
+          <Button variant="primary" size="sm" onClick={() => onApply(result.overrides)}>Apply to Quote</Button>
+        </div>
+      ) : (
+        <div className="text-dim">{result.error}</div>
+      )}
+
+      {hasOverrides(overrides) && (
+        <>
+          <div className="divider" />
+          <div className="field-label">Active on this quote</div>
+          <div className="hud-stats">
+            {overrides.markup !== null && (
+              <div className="hud-row">
+                <span className="mono-val">{describeLever('markup', overrides.markup, money)}</span>
+                <Button variant="danger" size="sm" onClick={() => onApply({ ...overrides, markup: null })}>Reset</Button>
+              </div>
+            )}
+            {overrides.hourlyRate !== null && (
+              <div className="hud-row">
+                <span className="mono-val">{describeLever('hourlyRate', overrides.hourlyRate, money)}</span>
+                <Button variant="danger" size="sm" onClick={() => onApply({ ...overrides, hourlyRate: null })}>Reset</Button>
+              </div>
+            )}
+            {overrides.adjustment !== 0 && (
+              <div className="hud-row">
+                <span className="mono-val">{describeLever('adjustment', overrides.adjustment, money)}</span>
+                <Button variant="danger" size="sm" onClick={() => onApply({ ...overrides, adjustment: 0 })}>Reset</Button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
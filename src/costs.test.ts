@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { buildCostChangeReport, recordCostChange } from './costs';
+import { libraryItem, savedLine, savedQuote } from './test-fixtures';
+
+describe('recordCostChange', () => {
+  const pipe = libraryItem({ id: 'pipe', cost: 10 });
+
+  it('records each day as one change', () => {
+    const typed = recordCostChange(recordCostChange(pipe, 1, '2026-03-01'), 12, '2026-03-01');
+    expect(typed.costHistory).toEqual([{ date: '2026-03-01', from: 10, to: 12 }]);
+    const later = recordCostChange(typed, 13, '2026-03-02');
+    expect(later.costHistory).toEqual([{ date: '2026-03-01', from: 10, to: 12 }, { date: '2026-03-02', from: 12, to: 13 }]);
+  });
+
+  it('drops the day\'s change when the cost is edited back', () => {
+    const edited = recordCostChange(recordCostChange(pipe, 12, '2026-03-01'), 10, '2026-03-01');
+    expect(edited.costHistory).toEqual([]);
+    expect(recordCostChange(pipe, 10)).toBe(pipe);
+  });
+});
+
+describe('buildCostChangeReport', () => {
+  const pricedLater = libraryItem({
+    id: 'valve',
+    cost: 7,
+    costHistory: [{ date: '2026-03-01', from: 0, to: 5 }, { date: '2026-03-10', from: 5, to: 7 }],
+  });
+
+  it('skips pricing an item for the first time but reports its later changes', () => {
+    const newlyPriced = libraryItem({ id: 'tee', cost: 2, costHistory: [{ date: '2026-03-01', from: 0, to: 2 }] });
+    const { items } = buildCostChangeReport([pricedLater, newlyPriced], [], '2026-02-01');
+    expect(items).toEqual([{ item: pricedLater, changes: [pricedLater.costHistory[1]], from: 5 }]);
+  });
+
+  it('reports a cost that was really zero before', () => {
+    const wasFree = libraryItem({
+      id: 'cap',
+      cost: 1,
+      costHistory: [{ date: '2026-01-01', from: 3, to: 0 }, { date: '2026-03-01', from: 0, to: 1 }],
+    });
+    expect(buildCostChangeReport([wasFree], [], '2026-02-01').items).toEqual([{ item: wasFree, changes: [wasFree.costHistory[1]], from: 0 }]);
+  });
+
+  it('ignores a cost that went back to where it started', () => {
+    const same = libraryItem({ id: 'pipe', cost: 10, costHistory: [{ date: '2026-03-01', from: 10, to: 12 }, { date: '2026-03-02', from: 12, to: 10 }] });
+    expect(buildCostChangeReport([same], [], '2026-02-01').items).toEqual([]);
+  });
+
+  it('lists open quotes that priced a changed item, with the margin they are left at', () => {
+    const accepted = savedQuote({ id: 'accepted', status: 'accepted', items: [savedLine('valve', 10, { unitCost: 5, markup: 100 })] });
+    const draft = savedQuote({ id: 'draft', items: [savedLine('valve', 2, { unitCost: 5, markup: 100 })] });
+    const { quotes } = buildCostChangeReport([pricedLater], [accepted, draft], '2026-03-05');
+    expect(quotes.map(impact => [impact.quote.id, impact.costIncrease, impact.margin, impact.newMargin])).toEqual([
+      ['draft', 4, 50, 30],
+      ['accepted', 20, 50, 30],
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import type { CostChange, LineSnapshot, PersistentItem, SavedQuote } from './types';
+import { calculateSavedQuoteTotals, savedQuoteItems } from './history';
+import { roundMoney } from './money';
+import { todayIso } from './utils';
+
+/**
+ * Sets a new cost and records the change. Repeated edits on the same day, like
+ * typing a price one digit at a time, update that day's change instead of adding
+ * one per keystroke; editing back to where the day started removes it.
+ */
+export const recordCostChange = (item: PersistentItem, cost: number, date = todayIso()): PersistentItem => {
+  if (cost === item.cost) return item;
+  const last = item.costHistory[item.costHistory.length - 1];
+  const earlier = last?.date === date ? item.costHistory.slice(0, -1) : item.costHistory;
+  const from = last?.date === date ? last.from : item.cost;
+  return {
+    ...item,
+    cost,
+    costHistory: from === cost ? earlier : [...earlier, { date, from, to: cost }],
+  };
+};
+
+export interface ChangedItem {
+  item: PersistentItem;
+  /** Changes on or after the report date, oldest first. */
+  changes: CostChange[];
+  /** Cost before the first of those changes. */
+  from: number;
+}
+
+export interface QuoteCostImpact {
+  quote: SavedQuote;
+  /** Extra cost of the quoted lines at today's library costs. */
+  costIncrease: number;
+  margin: number;
+  /** Margin if the quote is sold at its saved price with today's costs. */
+  newMargin: number;
+}
+
+export interface CostChangeReport {
+  items: ChangedItem[];
+  quotes: QuoteCostImpact[];
+}
+
+// Quotes the customer hasn't answered yet can still be repriced, so they come first
+const OPEN_STATUSES: SavedQuote['status'][] = ['draft', 'sent'];
+
+export const isOpenQuote = (quote: SavedQuote) => OPEN_STATUSES.includes(quote.status);
+
+/** What a line's cost moves by per unit when the changed items are costed as they are now. */
+const unitCostDelta = (itemId: string, snapshot: LineSnapshot, changed: Map<string, PersistentItem>): number => {
+  if (snapshot.parts) {
+    return snapshot.parts.reduce((sum, part) => sum + part.quantity * unitCostDelta(part.itemId, part.snapshot, changed), 0);
+  }
+  const item = changed.get(itemId);
+  return item ? item.cost - snapshot.unitCost : 0;
+};
+
+/**
+ * Lists library items whose cost changed on or after `since` and the saved quotes
+ * that priced them at a different cost. Quotes keep their saved sell price, so the
+ * difference comes straight off their profit.
+ */
+export const buildCostChangeReport = (items: PersistentItem[], quotes: SavedQuote[], since: string): CostChangeReport => {
+  const changedItems = items.flatMap((item): ChangedItem[] => {
+    // Pricing an item that had no cost yet is not a change; later changes still are
+    const changes = item.costHistory.filter((change, idx) => change.date >= since && !(idx === 0 && change.from === 0));
+    // A cost that went up and back down again is not a change either
+    if (changes.length === 0 || changes[0].from === item.cost) return [];
+    return [{ item, changes, from: changes[0].from }];
+  });
+  const changed = new Map(changedItems.map(({ item }) => [item.id, item]));
+
+  const impacts = quotes.flatMap((quote): QuoteCostImpact[] => {
+    const costIncrease = roundMoney(savedQuoteItems(quote).reduce(
+      (sum, qItem) => sum + qItem.quantity * unitCostDelta(qItem.itemId, qItem.snapshot, changed),
+      0
+    ));
+    if (costIncrease === 0) return [];
+    const totals = calculateSavedQuoteTotals(quote);
+    const newProfit = totals.profit - costIncrease;
+    return [{
+      quote,
+      costIncrease,
+      margin: totals.margin,
+      newMargin: totals.subtotal > 0 ? (newProfit / totals.subtotal) * 100 : 0,
+    }];
+  });
+
+  return {
+    items: changedItems,
+    quotes: impacts.sort((a, b) => Number(isOpenQuote(b.quote)) - Number(isOpenQuote(a.quote)) || b.costIncrease - a.costIncrease),
+  };
+};
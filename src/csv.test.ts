@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { applyLibraryImport, guessColumnMapping, libraryToCsv, parseCsv, planLibraryImport, summarizeImport, toCsv } from './csv';
+import { libraryItem } from './test-fixtures';
+
+const LIBRARY = [
+  libraryItem({ id: 'pipe', name: 'Copper Pipe', sku: 'CP-1', notes: 'Type L', cost: 10 }),
+  libraryItem({ id: 'valve', name: 'Ball Valve', cost: 4 }),
+  libraryItem({ id: 'kit', name: 'Valve Kit', parts: [{ itemId: 'valve', quantity: 2 }] }),
+];
+
+/** Plans an import of a sheet whose first row is the header. */
+const plan = (text: string, items = LIBRARY) => {
+  const [headers, ...rows] = parseCsv(text);
+  return planLibraryImport(rows, guessColumnMapping(headers), items);
+};
+
+describe('parseCsv', () => {
+  it('handles quoted commas, newlines and doubled quotes', () => {
+    expect(parseCsv('a,"b, c","say ""hi""\nthere"\r\nd,e,f')).toEqual([
+      ['a', 'b, c', 'say "hi"\nthere'],
+      ['d', 'e', 'f'],
+    ]);
+  });
+
+  it('drops blank lines and keeps a last row with no newline', () => {
+    expect(parseCsv('a,b\n\n , \nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('reads back what toCsv writes', () => {
+    const rows = [['Name', 'Notes'], ['Pipe, 1/2"', 'line one\nline two'], ['Valve', '']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('matches common header names in any case', () => {
+    expect(guessColumnMapping(['Description', 'Part #', 'Unit Price', 'Vendor', 'Extra'])).toEqual({
+      name: 0,
+      sku: 1,
+      category: null,
+      unit: null,
+      supplier: 3,
+      notes: null,
+      cost: 2,
+      markup: null,
+      taxable: null,
+    });
+  });
+});
+
+describe('planLibraryImport', () => {
+  it('updates items matched by SKU first, then by name', () => {
+    const rows = plan('Name,SKU,Cost\nRenamed Pipe,cp-1,11\nball valve,,5\nTee,,2');
+    expect(rows.map(row => [row.action, row.itemId])).toEqual([
+      ['update', 'pipe'],
+      ['update', 'valve'],
+      ['add', undefined],
+    ]);
+    expect(summarizeImport(rows)).toEqual({ added: 1, updated: 2, skipped: 0 });
+  });
+
+  it('skips rows it cannot use, with the reason', () => {
+    const rows = plan('Name,Cost,Markup\nTee,abc,\nElbow,2,lots\n,3,\nValve Kit,9,');
+    expect(rows.map(row => row.reason)).toEqual([
+      'Cost is not a number',
+      'Markup is not a number',
+      'No name and no matching SKU',
+      'Valve Kit is an assembly, priced from its parts',
+    ]);
+  });
+
+  it('adds a repeated new item once', () => {
+    const rows = plan('Name,Cost\nTee,2\ntee,3');
+    expect(rows.map(row => row.action)).toEqual(['add', 'skip']);
+    expect(rows[1].reason).toBe('Duplicate of line 2');
+  });
+
+  it('updates each library item from one row only', () => {
+    const rows = plan('Name,SKU,Cost\nCopper Pipe,,11\nAnything,CP-1,12');
+    expect(rows.map(row => row.action)).toEqual(['update', 'skip']);
+    expect(rows[1].reason).toBe('Copper Pipe is already updated by line 2');
+    expect(summarizeImport(rows)).toEqual({ added: 0, updated: 1, skipped: 1 });
+  });
+
+  it('reads money with symbols and separators', () => {
+    expect(plan('Name,Cost\nTee,"$1,234.50"')[0].cost).toBe(1234.5);
+  });
+});
+
+describe('applyLibraryImport', () => {
+  it('records the new cost and fills in only the mapped columns', () => {
+    const rows = plan('Name,Cost,Supplier,Markup,Taxable,Notes\nCopper Pipe,12,Ferguson,35%,no,\nTee,2,,,,Brass only');
+    const [pipe, , , tee] = applyLibraryImport(LIBRARY, rows, () => 'new-id');
+    expect(pipe).toMatchObject({ cost: 12, sku: 'CP-1', supplier: 'Ferguson', useCustomMarkup: true, customMarkup: 35, taxable: false });
+    expect(pipe.costHistory).toEqual([expect.objectContaining({ from: 10, to: 12 })]);
+    expect(pipe.notes).toBe('Type L');
+    expect(tee).toMatchObject({ id: 'new-id', name: 'Tee', cost: 2, unit: 'each', notes: 'Brass only', useCustomMarkup: false, taxable: true });
+  });
+
+  it('leaves items no row matched untouched', () => {
+    const updated = applyLibraryImport(LIBRARY, plan('Name,Cost\nCopper Pipe,12'), () => 'new-id');
+    expect(updated[1]).toBe(LIBRARY[1]);
+  });
+});
+
+describe('libraryToCsv', () => {
+  it('exports plain items with their exact cost', () => {
+    const items = [libraryItem({ name: 'Wire, 12ga', unit: 'ft', cost: 0.125, useCustomMarkup: true, customMarkup: 40 }), LIBRARY[2]];
+    expect(libraryToCsv(items)).toBe('Name,SKU,Category,Unit,Supplier,Notes,Cost,Markup (%),Taxable\r\n"Wire, 12ga",,,ft,,,0.125,40,yes');
+  });
+
+  it('round-trips through an import without changing anything', () => {
+    const items = [libraryItem({ id: 'wire', name: 'Wire', sku: 'W-12', unit: 'ft', supplier: 'Acme', notes: 'Stranded, "THHN"', cost: 0.125 })];
+    const rows = plan(libraryToCsv(items), items);
+    expect(rows).toEqual([expect.objectContaining({ action: 'update', itemId: 'wire', cost: 0.125 })]);
+    expect(applyLibraryImport(items, rows, () => 'new-id')).toEqual(items);
+    // A fresh library gets the notes too
+    expect(applyLibraryImport([], plan(libraryToCsv(items), []), () => 'wire')[0].notes).toBe('Stranded, "THHN"');
+  });
+});
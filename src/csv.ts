@@ -0,0 +1,261 @@
+import type { PersistentItem } from './types';
+import { isAssembly } from './utils';
+import { recordCostChange } from './costs';
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with embedded
+ * commas, newlines and doubled quotes; blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+const escapeCell = (value: string) => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (rows: (string | number)[][]) => {
+  return rows.map(row => row.map(value => escapeCell(String(value))).join(',')).join('\r\n');
+};
+
+// --- Item library ---
+
+export type LibraryField = 'name' | 'sku' | 'category' | 'unit' | 'supplier' | 'notes' | 'cost' | 'markup' | 'taxable';
+
+export const LIBRARY_FIELDS: { id: LibraryField; label: string; required: boolean }[] = [
+  { id: 'name', label: 'Name', required: true },
+  { id: 'sku', label: 'SKU', required: false },
+  { id: 'category', label: 'Category', required: false },
+  { id: 'unit', label: 'Unit', required: false },
+  { id: 'supplier', label: 'Supplier', required: false },
+  { id: 'notes', label: 'Notes', required: false },
+  { id: 'cost', label: 'Cost', required: true },
+  { id: 'markup', label: 'Markup (%)', required: false },
+  { id: 'taxable', label: 'Taxable', required: false },
+];
+
+/** Column index for each library field; null when the sheet has no such column. */
+export type ColumnMapping = Record<LibraryField, number | null>;
+
+const HEADER_ALIASES: Record<LibraryField, string[]> = {
+  name: ['name', 'item', 'description', 'product'],
+  sku: ['sku', 'part', 'part number', 'part #', 'item number', 'code'],
+  category: ['category', 'group', 'type'],
+  unit: ['unit', 'uom', 'unit of measure'],
+  supplier: ['supplier', 'vendor', 'manufacturer'],
+  notes: ['notes', 'note', 'comments'],
+  cost: ['cost', 'price', 'unit cost', 'unit price', 'net'],
+  markup: ['markup', 'markup %', 'markup (%)'],
+  taxable: ['taxable', 'tax'],
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const find = (field: LibraryField) => {
+    const idx = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    return idx === -1 ? null : idx;
+  };
+  return {
+    name: find('name'),
+    sku: find('sku'),
+    category: find('category'),
+    unit: find('unit'),
+    supplier: find('supplier'),
+    notes: find('notes'),
+    cost: find('cost'),
+    markup: find('markup'),
+    taxable: find('taxable'),
+  };
+};
+
+export type ImportAction = 'add' | 'update' | 'skip';
+
+export interface ImportRow {
+  /** 1-based row of the sheet, header included; blank lines are not counted. */
+  line: number;
+  action: ImportAction;
+  name: string;
+  sku: string;
+  /** Optional text columns; empty when unmapped or blank in the sheet. */
+  category: string;
+  unit: string;
+  supplier: string;
+  notes: string;
+  cost: number;
+  markup: number | null;
+  taxable: boolean | null;
+  /** Library item an update applies to. */
+  itemId?: string;
+  reason?: string;
+}
+
+const parseMoney = (raw: string) => {
+  const cleaned = raw.replace(/[$,\s]/g, '');
+  return cleaned === '' ? NaN : Number(cleaned);
+};
+
+const parseFlag = (raw: string) => {
+  const value = raw.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1'].includes(value)) return true;
+  if (['no', 'n', 'false', '0'].includes(value)) return false;
+  return null;
+};
+
+/**
+ * Works out what importing each data row would do, without touching the
+ * library. Rows match an existing item by SKU first, then by name.
+ */
+export const planLibraryImport = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  items: PersistentItem[]
+): ImportRow[] => {
+  const cell = (row: string[], field: LibraryField) => {
+    const idx = mapping[field];
+    return idx === null ? '' : (row[idx] ?? '').trim();
+  };
+  // New items already planned, so a repeated row doesn't create a second copy
+  const addedAt = new Map<string, number>();
+  // Library items already being updated, so only one row changes each
+  const updatedAt = new Map<string, number>();
+
+  return rows.map((row, idx): ImportRow => {
+    const name = cell(row, 'name');
+    const sku = cell(row, 'sku');
+    const cost = parseMoney(cell(row, 'cost'));
+    const markupRaw = cell(row, 'markup').replace('%', '');
+    const markup = markupRaw === '' ? null : Number(markupRaw);
+    const taxable = parseFlag(cell(row, 'taxable'));
+    const base = {
+      line: idx + 2,
+      name,
+      sku,
+      category: cell(row, 'category'),
+      unit: cell(row, 'unit'),
+      supplier: cell(row, 'supplier'),
+      notes: cell(row, 'notes'),
+      cost,
+      markup,
+      taxable,
+    };
+
+    if (Number.isNaN(cost) || cost < 0) return { ...base, action: 'skip', reason: 'Cost is not a number' };
+    if (markup !== null && Number.isNaN(markup)) return { ...base, action: 'skip', reason: 'Markup is not a number' };
+
+    const match = (sku && items.find(item => item.sku && item.sku.toLowerCase() === sku.toLowerCase()))
+      || (name && items.find(item => item.name.trim().toLowerCase() === name.toLowerCase()));
+    if (match && isAssembly(match)) return { ...base, action: 'skip', reason: `${match.name} is an assembly, priced from its parts` };
+    if (match) {
+      const firstLine = updatedAt.get(match.id);
+      if (firstLine !== undefined) return { ...base, action: 'skip', reason: `${match.name} is already updated by line ${firstLine}` };
+      updatedAt.set(match.id, base.line);
+      return { ...base, action: 'update', itemId: match.id };
+    }
+    if (!name) return { ...base, action: 'skip', reason: 'No name and no matching SKU' };
+    const key = (sku || name).toLowerCase();
+    const firstLine = addedAt.get(key);
+    if (firstLine !== undefined) return { ...base, action: 'skip', reason: `Duplicate of line ${firstLine}` };
+    addedAt.set(key, base.line);
+    return { ...base, action: 'add' };
+  });
+};
+
+export const summarizeImport = (plan: ImportRow[]) => ({
+  added: plan.filter(row => row.action === 'add').length,
+  updated: plan.filter(row => row.action === 'update').length,
+  skipped: plan.filter(row => row.action === 'skip').length,
+});
+
+/** Applies a planned import. Updates change the cost plus any optional column that was mapped. */
+export const applyLibraryImport = (
+  items: PersistentItem[],
+  plan: ImportRow[],
+  createId: () => string
+): PersistentItem[] => {
+  const updates = new Map(plan.filter(row => row.action === 'update').map(row => [row.itemId, row]));
+  const updated = items.map(item => {
+    const row = updates.get(item.id);
+    if (!row) return item;
+    return {
+      ...recordCostChange(item, row.cost),
+      ...(row.sku && { sku: row.sku }),
+      ...(row.category && { category: row.category }),
+      ...(row.unit && { unit: row.unit }),
+      ...(row.supplier && { supplier: row.supplier }),
+      ...(row.notes && { notes: row.notes }),
+      ...(row.markup !== null && { useCustomMarkup: true, customMarkup: row.markup }),
+      ...(row.taxable !== null && { taxable: row.taxable }),
+    };
+  });
+  const added = plan.filter(row => row.action === 'add').map((row): PersistentItem => ({
+    id: createId(),
+    name: row.name,
+    sku: row.sku,
+    category: row.category,
+    unit: row.unit || 'each',
+    supplier: row.supplier,
+    notes: row.notes,
+    cost: row.cost,
+    useCustomMarkup: row.markup !== null,
+    customMarkup: row.markup ?? 0,
+    taxable: row.taxable ?? true,
+    parts: [],
+    labor: [],
+    costHistory: [],
+  }));
+  return [...updated, ...added];
+};
+
+/** Assemblies are priced from their parts, so only plain items are exported. */
+export const libraryToCsv = (items: PersistentItem[]) => {
+  return toCsv([
+    ['Name', 'SKU', 'Category', 'Unit', 'Supplier', 'Notes', 'Cost', 'Markup (%)', 'Taxable'],
+    ...items.filter(item => !isAssembly(item)).map(item => [
+      item.name,
+      item.sku,
+      item.category,
+      item.unit,
+      item.supplier,
+      item.notes,
+      String(item.cost),
+      item.useCustomMarkup ? item.customMarkup : '',
+      item.taxable ? 'yes' : 'no',
+    ]),
+  ]);
+};
@@ -0,0 +1,126 @@
+import type { QuoteStatus, RoundingSettings, SavedQuote } from './types';
+import { DEFAULT_ROUNDING, NO_JOB_COSTS, NO_MARKUP_RULES, NO_OVERRIDES } from './types';
+import { calculateQuoteTotals, todayIso } from './utils';
+import type { QuoteInput } from './utils';
+import { priceOptions, withOption } from './options';
+
+export type HistorySort = 'date' | 'total' | 'margin';
+export type SortDirection = 'asc' | 'desc';
+
+export interface HistoryQuery {
+  search: string;
+  status: QuoteStatus | 'all';
+  /** Inclusive local dates (YYYY-MM-DD); empty means unbounded. */
+  from: string;
+  to: string;
+  sort: HistorySort;
+  direction: SortDirection;
+}
+
+export const DEFAULT_HISTORY_QUERY: HistoryQuery = {
+  search: '',
+  status: 'all',
+  from: '',
+  to: '',
+  sort: 'date',
+  direction: 'desc',
+};
+
+export interface HistoryEntry {
+  quote: SavedQuote;
+  /** Local date the quote was first saved. */
+  savedOn: string;
+  savedAt: number;
+  margin: number;
+}
+
+// Quotes saved before rounding settings existed were totalled without rounding any line
+export const LEGACY_ROUNDING: RoundingSettings = { ...DEFAULT_ROUNDING, mode: 'total' };
+
+const savedQuoteInput = (quote: SavedQuote): QuoteInput => ({
+  quoteItems: quote.items,
+  persistentItems: [],
+  markupPolicy: { globalMarkup: 0, rules: NO_MARKUP_RULES },
+  laborLines: quote.laborLines,
+  laborRates: quote.laborRates,
+  quoteDiscount: quote.discount ?? null,
+  tax: quote.tax,
+  overrides: quote.overrides ?? NO_OVERRIDES,
+  rounding: quote.rounding ?? LEGACY_ROUNDING,
+  jobCosts: quote.jobCosts ?? NO_JOB_COSTS,
+});
+
+/** The option a saved quote's totals describe: the one the customer chose, otherwise the first. */
+export const pricedOptionOf = (quote: SavedQuote, optionId = quote.chosenOptionId) => {
+  return quote.options?.find(option => option.id === optionId) ?? quote.options?.[0];
+};
+
+/** Shared lines plus those of the priced option. */
+export const savedQuoteItems = (quote: SavedQuote) => [...quote.items, ...(pricedOptionOf(quote)?.items ?? [])];
+
+/**
+ * Reprices a saved quote from its own snapshots. Every saved line carries one,
+ * so the current library never leaks into the result.
+ */
+export const calculateSavedQuoteTotals = (quote: SavedQuote, optionId?: string) => {
+  const option = pricedOptionOf(quote, optionId);
+  return calculateQuoteTotals(withOption(savedQuoteInput(quote), option && { quoteItems: option.items, laborLines: option.laborLines }));
+};
+
+export const priceSavedOptions = (quote: SavedQuote) => {
+  return priceOptions(savedQuoteInput(quote), (quote.options ?? []).map(option => ({ ...option, quoteItems: option.items })));
+};
+
+/** Records the option the customer accepted; the saved totals follow it. */
+export const withChosenOption = (quote: SavedQuote, optionId: string): SavedQuote => {
+  const chosen = { ...quote, chosenOptionId: optionId };
+  const totals = calculateSavedQuoteTotals(chosen);
+  return {
+    ...chosen,
+    discountTotal: totals.discountTotal,
+    subtotal: totals.subtotal,
+    taxLines: totals.tax.lines,
+    totalTax: totals.tax.total,
+    totalPrice: totals.total,
+  };
+};
+
+// The first status change is written when the quote is saved, unlike `date`
+// which is a locale string and can't be compared reliably.
+const savedAtOf = (quote: SavedQuote) => {
+  const time = new Date(quote.statusHistory[0]?.at ?? '').getTime();
+  return Number.isNaN(time) ? 0 : time;
+};
+
+export const buildHistoryEntries = (quotes: SavedQuote[]): HistoryEntry[] => {
+  return quotes.map(quote => {
+    const savedAt = savedAtOf(quote);
+    return {
+      quote,
+      savedAt,
+      savedOn: savedAt ? todayIso(new Date(savedAt)) : '',
+      margin: calculateSavedQuoteTotals(quote).margin,
+    };
+  });
+};
+
+const SORT_KEYS: Record<HistorySort, (entry: HistoryEntry) => number> = {
+  date: entry => entry.savedAt,
+  total: entry => entry.quote.totalPrice,
+  margin: entry => entry.margin,
+};
+
+export const queryHistory = (entries: HistoryEntry[], query: HistoryQuery) => {
+  const needle = query.search.trim().toLowerCase();
+  const key = SORT_KEYS[query.sort];
+  const sign = query.direction === 'asc' ? 1 : -1;
+  return entries
+    .filter(({ quote, savedOn }) => {
+      if (query.status !== 'all' && quote.status !== query.status) return false;
+      if (needle && !quote.name.toLowerCase().includes(needle) && !quote.customer?.name.toLowerCase().includes(needle)) return false;
+      if (query.from && (!savedOn || savedOn < query.from)) return false;
+      if (query.to && (!savedOn || savedOn > query.to)) return false;
+      return true;
+    })
+    .sort((a, b) => (key(a) - key(b)) * sign);
+};
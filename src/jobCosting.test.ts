@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { buildAccuracyReport, buildJobVariance, costVariancePercent, formatCostVariance, startActuals } from './jobCosting';
+import { NO_JOB_COSTS } from './types';
+import type { JobActuals, SavedQuote } from './types';
+import { libraryItem, savedLine, savedQuote } from './test-fixtures';
+
+// 10 ft of pipe at $10 and a valve at $4, both marked up 50%, plus 4 hours at
+// a $25 wage billed at $100. Estimated cost $204 against a $556 price.
+const QUOTE = savedQuote({
+  id: 'q1',
+  items: [
+    savedLine('pipe', 6, { name: 'Copper Pipe', unit: 'ft', unitCost: 10, markup: 50 }),
+    savedLine('valve', 1, { name: 'Ball Valve', unitCost: 4, markup: 50 }),
+    savedLine('pipe', 4, { name: 'Copper Pipe', unit: 'ft', unitCost: 10, markup: 50 }),
+  ],
+  laborLines: [{ roleId: 'role-1', hours: 4 }],
+});
+
+const withActuals = (quote: SavedQuote, actuals: (start: JobActuals) => JobActuals): SavedQuote => ({
+  ...quote,
+  actuals: actuals(startActuals(quote)),
+});
+
+describe('startActuals', () => {
+  it('starts from the estimate, one entry per item and role', () => {
+    const actuals = startActuals(QUOTE);
+    expect(actuals.materials).toEqual([
+      expect.objectContaining({ itemId: 'pipe', name: 'Copper Pipe', unit: 'ft', quantity: 10, unitCost: 10 }),
+      expect.objectContaining({ itemId: 'valve', name: 'Ball Valve', unit: 'each', quantity: 1, unitCost: 4 }),
+    ]);
+    expect(actuals.labor).toEqual([expect.objectContaining({ roleId: 'role-1', person: '', hours: 4 })]);
+  });
+});
+
+describe('buildJobVariance', () => {
+  it('has nothing to compare before actuals are recorded', () => {
+    expect(buildJobVariance(QUOTE)).toBeNull();
+  });
+
+  it('matches the estimate when the job went as quoted', () => {
+    const variance = buildJobVariance(withActuals(QUOTE, start => start));
+    expect(variance?.price).toBe(556);
+    expect(variance?.estimated).toEqual(variance?.actual);
+    expect(variance?.estimated.cost).toBe(204);
+  });
+
+  it('compares each item and role, and lists unplanned extras', () => {
+    const quote = withActuals(QUOTE, ({ materials, labor }) => ({
+      materials: [
+        { ...materials[0], quantity: 12 },
+        materials[1],
+        { id: 'extra', itemId: null, name: 'Solder', unit: 'each', quantity: 2, unitCost: 7.5 },
+      ],
+      labor: [{ ...labor[0], hours: 5 }],
+    }));
+    const variance = buildJobVariance(quote);
+    expect(variance?.rows.map(row => [row.name, row.estimatedCost, row.actualCost, row.extra])).toEqual([
+      ['Copper Pipe', 100, 120, false],
+      ['Ball Valve', 4, 4, false],
+      ['Solder', 0, 15, true],
+      ['Technician', 100, 125, false],
+    ]);
+    expect(variance?.actual).toEqual({ cost: 264, profit: 292, margin: (292 / 556) * 100 });
+  });
+
+  it('applies burden and overhead again to the actual hours and wages', () => {
+    const quote = withActuals(
+      { ...QUOTE, jobCosts: { ...NO_JOB_COSTS, burdenPercent: 20, overheadRate: 10 } },
+      ({ materials, labor }) => ({ materials, labor: [{ ...labor[0], hours: 6 }] })
+    );
+    const overhead = buildJobVariance(quote)?.rows.find(row => row.kind === 'overhead');
+    // Estimated: 20% of $100 wages plus 4 hrs × $10; actual: 20% of $150 plus 6 hrs × $10
+    expect(overhead).toMatchObject({ estimatedCost: 60, actualCost: 90 });
+  });
+});
+
+describe('buildAccuracyReport', () => {
+  const over = withActuals({ ...QUOTE, id: 'over', pricingProfileId: 'service' }, ({ materials, labor }) => ({
+    materials: [{ ...materials[0], unitCost: 12 }, materials[1]],
+    labor,
+  }));
+  const under = withActuals({ ...QUOTE, id: 'under' }, ({ materials, labor }) => ({
+    materials,
+    labor: [{ ...labor[0], hours: 3 }],
+  }));
+  const library = {
+    items: [libraryItem({ id: 'pipe', name: 'Copper Pipe (1/2")', category: 'Pipe' })],
+    profiles: [{ id: 'service', name: 'Service Plan', targetHourly: 90, globalMarkup: 30, roleRates: [] }],
+  };
+
+  it('groups by item, worst under-estimate first, using current library names', () => {
+    const rows = buildAccuracyReport([over, under, QUOTE], 'item', library);
+    expect(rows.map(row => [row.name, row.jobs, row.overEstimate, row.estimatedCost, row.actualCost])).toEqual([
+      ['Copper Pipe (1/2")', 2, 1, 200, 220],
+      ['Ball Valve', 2, 0, 8, 8],
+      ['Technician (labor)', 2, 0, 200, 175],
+    ]);
+  });
+
+  it('groups by category and by job type', () => {
+    expect(buildAccuracyReport([over], 'category', library).map(row => [row.name, row.actualCost])).toEqual([
+      ['Pipe', 120],
+      ['Uncategorized', 4],
+      ['Labor', 100],
+    ]);
+    expect(buildAccuracyReport([over, under], 'jobType', library).map(row => [row.name, row.overEstimate])).toEqual([
+      ['Service Plan', 1],
+      ['Standard', 0],
+    ]);
+  });
+});
+
+describe('formatCostVariance', () => {
+  it('shows how far the actual cost is from the estimate', () => {
+    expect(costVariancePercent(200, 250)).toBe(25);
+    expect(formatCostVariance(200, 250)).toBe('+25.0%');
+    expect(formatCostVariance(200, 150)).toBe('-25.0%');
+    expect(formatCostVariance(0, 15)).toBe('unplanned');
+    expect(formatCostVariance(0, 0)).toBe('');
+  });
+});
@@ -0,0 +1,311 @@
+import type { ActualLabor, ActualMaterial, JobActuals, PersistentItem, PricingProfile, SavedQuote } from './types';
+import { NO_JOB_COSTS } from './types';
+import { calculateSavedQuoteTotals } from './history';
+import { roundMoney, sumMoney } from './money';
+import { generateId } from './utils';
+
+export type VarianceKind = 'material' | 'labor' | 'overhead';
+
+export interface VarianceRow {
+  /** Item id, role id or actual entry id; unique within its kind. */
+  key: string;
+  kind: VarianceKind;
+  /** Library item of a material row; missing for extras bought outside the library. */
+  itemId?: string;
+  name: string;
+  unit: string;
+  /** Not on the quote, so nothing was estimated or charged for it. */
+  extra: boolean;
+  estimatedQuantity: number;
+  actualQuantity: number;
+  /** What the quote charges for the line, before any quote-level discount or charge. */
+  price: number;
+  estimatedCost: number;
+  actualCost: number;
+}
+
+export interface VarianceFigures {
+  cost: number;
+  profit: number;
+  margin: number;
+}
+
+export interface JobVariance {
+  rows: VarianceRow[];
+  /** The quote's pre-tax price; the customer pays it whatever the job really cost. */
+  price: number;
+  estimated: VarianceFigures;
+  actual: VarianceFigures;
+}
+
+const figuresFor = (price: number, cost: number): VarianceFigures => {
+  const profit = roundMoney(price - cost);
+  return { cost, profit, margin: price > 0 ? (profit / price) * 100 : 0 };
+};
+
+const rolesOf = (quote: SavedQuote) => new Map(quote.laborRates.roles.map(role => [role.id, role]));
+
+/**
+ * Actuals to start from: every quoted item and role as estimated, so only what
+ * turned out differently needs changing.
+ */
+export const startActuals = (quote: SavedQuote): JobActuals => {
+  const totals = calculateSavedQuoteTotals(quote);
+  const materials = new Map<string, ActualMaterial>();
+  totals.lines.forEach(line => {
+    const existing = materials.get(line.item.itemId);
+    const quantity = (existing?.quantity ?? 0) + line.item.quantity;
+    const cost = (existing ? existing.quantity * existing.unitCost : 0) + line.cost;
+    materials.set(line.item.itemId, {
+      id: existing?.id ?? generateId(),
+      itemId: line.item.itemId,
+      name: line.pricing.name,
+      unit: line.pricing.unit,
+      quantity,
+      unitCost: quantity > 0 ? roundMoney(cost / quantity) : line.pricing.unitCost,
+    });
+  });
+  const labor = new Map<string, ActualLabor>();
+  totals.labor.lines.forEach(line => {
+    const existing = labor.get(line.role.id);
+    labor.set(line.role.id, {
+      id: existing?.id ?? generateId(),
+      person: '',
+      roleId: line.role.id,
+      hours: (existing?.hours ?? 0) + line.line.hours,
+    });
+  });
+  return { materials: [...materials.values()], labor: [...labor.values()] };
+};
+
+export const createExtraMaterial = (): ActualMaterial => ({
+  id: generateId(),
+  itemId: null,
+  name: '',
+  unit: 'each',
+  quantity: 1,
+  unitCost: 0,
+});
+
+export const createActualLabor = (roleId: string): ActualLabor => ({
+  id: generateId(),
+  person: '',
+  roleId,
+  hours: 0,
+});
+
+/**
+ * Compares a saved quote's estimate with what the job really took, line by line.
+ * Quoted lines of the same item or role are combined, since that is how actuals
+ * are recorded. Burden and overhead are applied again to the actual hours and wages.
+ */
+export const buildJobVariance = (quote: SavedQuote): JobVariance | null => {
+  if (!quote.actuals) return null;
+  const { materials, labor } = quote.actuals;
+  const totals = calculateSavedQuoteTotals(quote);
+  const jobCosts = quote.jobCosts ?? NO_JOB_COSTS;
+  const roles = rolesOf(quote);
+
+  const materialRows = new Map<string, VarianceRow>();
+  totals.lines.forEach(line => {
+    const row = materialRows.get(line.item.itemId);
+    materialRows.set(line.item.itemId, {
+      key: line.item.itemId,
+      kind: 'material',
+      itemId: line.item.itemId,
+      name: line.pricing.name,
+      unit: line.pricing.unit,
+      extra: false,
+      estimatedQuantity: (row?.estimatedQuantity ?? 0) + line.item.quantity,
+      actualQuantity: 0,
+      price: sumMoney([row?.price ?? 0, line.price]),
+      estimatedCost: sumMoney([row?.estimatedCost ?? 0, line.cost]),
+      actualCost: 0,
+    });
+  });
+  const extraRows: VarianceRow[] = [];
+  materials.forEach(material => {
+    const cost = roundMoney(material.quantity * material.unitCost);
+    const row = material.itemId !== null ? materialRows.get(material.itemId) : undefined;
+    if (row) {
+      row.actualQuantity += material.quantity;
+      row.actualCost = sumMoney([row.actualCost, cost]);
+      return;
+    }
+    extraRows.push({
+      key: material.id,
+      kind: 'material',
+      ...(material.itemId !== null && { itemId: material.itemId }),
+      name: material.name,
+      unit: material.unit,
+      extra: true,
+      estimatedQuantity: 0,
+      actualQuantity: material.quantity,
+      price: 0,
+      estimatedCost: 0,
+      actualCost: cost,
+    });
+  });
+
+  const laborRows = new Map<string, VarianceRow>();
+  totals.labor.lines.forEach(line => {
+    const row = laborRows.get(line.role.id);
+    laborRows.set(line.role.id, {
+      key: line.role.id,
+      kind: 'labor',
+      name: line.role.name,
+      unit: 'hrs',
+      extra: false,
+      estimatedQuantity: (row?.estimatedQuantity ?? 0) + line.line.hours,
+      actualQuantity: 0,
+      price: sumMoney([row?.price ?? 0, line.price]),
+      estimatedCost: sumMoney([row?.estimatedCost ?? 0, line.cost]),
+      actualCost: 0,
+    });
+  });
+  labor.forEach(entry => {
+    const role = roles.get(entry.roleId);
+    const cost = roundMoney(entry.hours * (role?.wage ?? 0));
+    let row = laborRows.get(entry.roleId);
+    if (!row) {
+      row = {
+        key: entry.roleId,
+        kind: 'labor',
+        name: role?.name ?? 'Deleted role',
+        unit: 'hrs',
+        extra: true,
+        estimatedQuantity: 0,
+        actualQuantity: 0,
+        price: 0,
+        estimatedCost: 0,
+        actualCost: 0,
+      };
+      laborRows.set(entry.roleId, row);
+    }
+    row.actualQuantity += entry.hours;
+    row.actualCost = sumMoney([row.actualCost, cost]);
+  });
+
+  const rows = [...materialRows.values(), ...extraRows, ...laborRows.values()];
+  const laborOnly = [...laborRows.values()];
+  const actualWages = sumMoney(laborOnly.map(row => row.actualCost));
+  const actualHours = laborOnly.reduce((sum, row) => sum + row.actualQuantity, 0);
+  const actualOverhead = sumMoney([
+    roundMoney(actualWages * (jobCosts.burdenPercent / 100)),
+    roundMoney(jobCosts.overheadBasis === 'hour'
+      ? actualHours * jobCosts.overheadRate
+      : totals.subtotal * (jobCosts.overheadRate / 100)),
+  ]);
+  const estimatedOverhead = sumMoney([totals.burden, totals.overhead]);
+  if (estimatedOverhead !== 0 || actualOverhead !== 0) {
+    rows.push({
+      key: 'overhead',
+      kind: 'overhead',
+      name: 'Burden & Overhead',
+      unit: '',
+      extra: false,
+      estimatedQuantity: 0,
+      actualQuantity: 0,
+      price: 0,
+      estimatedCost: estimatedOverhead,
+      actualCost: actualOverhead,
+    });
+  }
+
+  return {
+    rows,
+    price: totals.subtotal,
+    estimated: figuresFor(totals.subtotal, totals.cost),
+    actual: figuresFor(totals.subtotal, sumMoney(rows.map(row => row.actualCost))),
+  };
+};
+
+/** Library items and labor roles, library categories, or job types as given by the pricing profile. */
+export type AccuracyGrouping = 'item' | 'category' | 'jobType';
+
+export interface AccuracyRow {
+  key: string;
+  name: string;
+  /** Jobs with actuals that included it. */
+  jobs: number;
+  /** Of those, how many cost more than estimated. */
+  overEstimate: number;
+  estimatedCost: number;
+  actualCost: number;
+}
+
+/**
+ * How estimates compared with actuals across every job that has them, worst
+ * under-estimate first. Names come from the library and profiles as they are now,
+ * falling back to what the quote saved.
+ */
+export const buildAccuracyReport = (
+  quotes: SavedQuote[],
+  grouping: AccuracyGrouping,
+  { items, profiles }: { items: PersistentItem[]; profiles: PricingProfile[] }
+): AccuracyRow[] => {
+  const libraryItems = new Map(items.map(item => [item.id, item]));
+  const groups = new Map<string, AccuracyRow>();
+
+  quotes.forEach(quote => {
+    const variance = buildJobVariance(quote);
+    if (!variance) return;
+    // Summed per job first, so a group counts once per job however many lines it has
+    const job = new Map<string, { name: string; estimated: number; actual: number }>();
+    const track = (key: string, name: string, estimated: number, actual: number) => {
+      const entry = job.get(key);
+      job.set(key, {
+        name: entry?.name ?? name,
+        estimated: sumMoney([entry?.estimated ?? 0, estimated]),
+        actual: sumMoney([entry?.actual ?? 0, actual]),
+      });
+    };
+
+    if (grouping === 'jobType') {
+      const profile = profiles.find(p => p.id === quote.pricingProfileId);
+      const name = profile?.name ?? (quote.pricingProfileId ? 'Deleted profile' : 'Standard');
+      track(quote.pricingProfileId ?? 'standard', name, variance.estimated.cost, variance.actual.cost);
+    } else {
+      variance.rows.forEach(row => {
+        if (row.kind === 'overhead') return;
+        if (row.kind === 'labor') {
+          if (grouping === 'item') track(`role-${row.key}`, `${row.name} (labor)`, row.estimatedCost, row.actualCost);
+          else track('labor', 'Labor', row.estimatedCost, row.actualCost);
+          return;
+        }
+        const item = row.itemId ? libraryItems.get(row.itemId) : undefined;
+        if (grouping === 'item') {
+          if (row.itemId) track(row.itemId, item?.name ?? row.name, row.estimatedCost, row.actualCost);
+          else track('unplanned', 'Unplanned extras', row.estimatedCost, row.actualCost);
+        } else {
+          const category = item?.category.trim() || 'Uncategorized';
+          track(category.toLowerCase(), category, row.estimatedCost, row.actualCost);
+        }
+      });
+    }
+
+    job.forEach((entry, key) => {
+      const row = groups.get(key) ?? { key, name: entry.name, jobs: 0, overEstimate: 0, estimatedCost: 0, actualCost: 0 };
+      groups.set(key, {
+        ...row,
+        jobs: row.jobs + 1,
+        overEstimate: row.overEstimate + (entry.actual > entry.estimated ? 1 : 0),
+        estimatedCost: sumMoney([row.estimatedCost, entry.estimated]),
+        actualCost: sumMoney([row.actualCost, entry.actual]),
+      });
+    });
+  });
+
+  return [...groups.values()].sort((a, b) => (b.actualCost - b.estimatedCost) - (a.actualCost - a.estimatedCost));
+};
+
+/** Percent the actual cost is over (positive) or under the estimate; null when nothing was estimated. */
+export const costVariancePercent = (estimated: number, actual: number) => {
+  return estimated > 0 ? ((actual - estimated) / estimated) * 100 : null;
+};
+
+export const formatCostVariance = (estimated: number, actual: number) => {
+  const pct = costVariancePercent(estimated, actual);
+  if (pct === null) return actual > 0 ? 'unplanned' : '';
+  return `${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`;
+};
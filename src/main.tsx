@@ -2,9 +2,20 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { loadAppState, openStorage, recoverAppState } from './storage'
+import { registerServiceWorker } from './pwa'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// The dev server has no precache manifest, so offline support is production only
+if (import.meta.env.PROD) registerServiceWorker()
+
+// Storage is read before the first render so the app never shows defaults over saved data
+openStorage()
+  .then(async storage => ({ storage, initial: await loadAppState(storage) }))
+  .catch(recoverAppState)
+  .then(({ storage, initial }) => {
+    createRoot(document.getElementById('root')!).render(
+      <StrictMode>
+        <App storage={storage} initial={initial} />
+      </StrictMode>,
+    )
+  })
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createMoneyFormatter, isSupportedMoneyFormat, roundMoney, roundPriceUp, sumMoney, toCents } from './money';
+
+describe('toCents', () => {
+  it('rounds halves away from zero', () => {
+    expect(toCents(0.125)).toBe(13);
+    expect(toCents(-0.125)).toBe(-13);
+  });
+
+  it('rounds amounts stored just under a half cent up', () => {
+    // 1.005 is stored as 1.00499999999999989...
+    expect(toCents(1.005)).toBe(101);
+    expect(toCents(8.345)).toBe(835);
+  });
+});
+
+describe('roundMoney', () => {
+  it('rounds to whole cents', () => {
+    expect(roundMoney(10.004)).toBe(10);
+    expect(roundMoney(10.005)).toBe(10.01);
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+  });
+});
+
+describe('sumMoney', () => {
+  it('adds in whole cents so the total matches the rounded parts', () => {
+    expect(sumMoney([0.1, 0.2])).toBe(0.3);
+    expect(sumMoney([1.005, 1.005, 1.005])).toBe(3.03);
+    expect(sumMoney([])).toBe(0);
+  });
+});
+
+describe('roundPriceUp', () => {
+  it('rounds up to the next dollar', () => {
+    expect(roundPriceUp(12.01, 'dollar')).toBe(13);
+    expect(roundPriceUp(12, 'dollar')).toBe(12);
+  });
+
+  it('rounds up to the next five', () => {
+    expect(roundPriceUp(1234.56, 'five')).toBe(1235);
+    expect(roundPriceUp(1235, 'five')).toBe(1235);
+  });
+
+  it('rounds up to the next .99', () => {
+    expect(roundPriceUp(12.5, 'ninety-nine')).toBe(12.99);
+    expect(roundPriceUp(12.99, 'ninety-nine')).toBe(12.99);
+    expect(roundPriceUp(13, 'ninety-nine')).toBe(13.99);
+  });
+
+  it('leaves zero and negative amounts alone', () => {
+    expect(roundPriceUp(0, 'dollar')).toBe(0);
+    expect(roundPriceUp(-4.2, 'five')).toBe(-4.2);
+  });
+});
+
+describe('createMoneyFormatter', () => {
+  it('formats in the configured currency and locale', () => {
+    const money = createMoneyFormatter({ currency: 'EUR', locale: 'de-DE' });
+    expect(money.format(1234.5)).toBe('1.234,50 €');
+    expect(money.symbol).toBe('€');
+  });
+
+  it('does not print tiny negative amounts as negative zero', () => {
+    expect(createMoneyFormatter({ currency: 'USD', locale: 'en-US' }).format(-0.001)).toBe('$0.00');
+  });
+
+  it('falls back to the defaults for a currency it cannot format', () => {
+    expect(isSupportedMoneyFormat({ currency: 'NOT A CODE', locale: 'en-US' })).toBe(false);
+    expect(createMoneyFormatter({ currency: 'NOT A CODE', locale: 'en-US' }).format(5)).toBe('$5.00');
+  });
+});
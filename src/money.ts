@@ -0,0 +1,66 @@
+import type { MoneySettings, PriceRoundingRule } from './types';
+import { DEFAULT_SETTINGS } from './types';
+
+/**
+ * Whole cents, rounding halves away from zero. The small nudge absorbs binary
+ * noise, so 1.005 (stored as 1.00499999...) still rounds up to 101.
+ */
+export const toCents = (amount: number) => {
+  const cents = Math.floor(Math.abs(amount) * 100 + 0.5 + 1e-6);
+  return amount < 0 ? -cents : cents;
+};
+
+export const fromCents = (cents: number) => cents / 100;
+
+export const roundMoney = (amount: number) => fromCents(toCents(amount));
+
+/** Adds amounts as whole cents so the result never drifts from the rounded parts. */
+export const sumMoney = (amounts: number[]) => {
+  return fromCents(amounts.reduce((sum, amount) => sum + toCents(amount), 0));
+};
+
+const PRICE_ROUNDING: Record<PriceRoundingRule, (cents: number) => number> = {
+  dollar: cents => Math.ceil(cents / 100) * 100,
+  five: cents => Math.ceil(cents / 500) * 500,
+  'ninety-nine': cents => Math.ceil((cents + 1) / 100) * 100 - 1,
+};
+
+export const PRICE_ROUNDING_LABELS: Record<PriceRoundingRule, string> = {
+  dollar: 'Next 1',
+  five: 'Next 5',
+  'ninety-nine': 'Next .99',
+};
+
+/** Rounds a sell price up by the given rule. Zero and negative amounts are left alone. */
+export const roundPriceUp = (amount: number, rule: PriceRoundingRule) => {
+  const cents = toCents(amount);
+  return fromCents(cents > 0 ? PRICE_ROUNDING[rule](cents) : cents);
+};
+
+export interface MoneyFormatter {
+  format: (amount: number) => string;
+  /** Currency symbol for input prefixes, e.g. $ or € */
+  symbol: string;
+}
+
+const buildNumberFormat = ({ currency, locale }: Pick<MoneySettings, 'currency' | 'locale'>) => {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency });
+};
+
+/** False when the browser can't format the currency code or locale. */
+export const isSupportedMoneyFormat = (settings: Pick<MoneySettings, 'currency' | 'locale'>) => {
+  try {
+    buildNumberFormat(settings);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Formats amounts in the configured currency, falling back to the defaults if it is invalid. */
+export const createMoneyFormatter = (settings: Pick<MoneySettings, 'currency' | 'locale'>): MoneyFormatter => {
+  const numberFormat = isSupportedMoneyFormat(settings) ? buildNumberFormat(settings) : buildNumberFormat(DEFAULT_SETTINGS.money);
+  const symbol = numberFormat.formatToParts(0).find(part => part.type === 'currency')?.value ?? settings.currency;
+  // Adding zero turns -0 into 0 so tiny negative amounts don't print as "-$0.00"
+  return { format: amount => numberFormat.format(roundMoney(amount) + 0), symbol };
+};
@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_SETTINGS } from './types';
+import { createMoneyFormatter } from './money';
+import type { MoneyFormatter } from './money';
+
+/** Formatter for the currency and locale in settings; App provides it to every component. */
+export const MoneyContext = createContext<MoneyFormatter>(createMoneyFormatter(DEFAULT_SETTINGS.money));
+
+export const useMoney = () => useContext(MoneyContext);
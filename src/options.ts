@@ -0,0 +1,64 @@
+import type { LaborLine, QuoteItem, QuoteOption } from './types';
+import { calculateQuoteTotals, generateId } from './utils';
+import type { PricedLaborLine, PricedLine, QuoteInput, QuoteTotals } from './utils';
+
+const OPTION_NAMES = ['Good', 'Better', 'Best'];
+
+export const createOption = (existing: QuoteOption[]): QuoteOption => ({
+  id: generateId(),
+  name: OPTION_NAMES[existing.length] ?? `Option ${existing.length + 1}`,
+  quoteItems: [],
+  laborLines: [],
+});
+
+/**
+ * Adds an option's lines after the shared ones, so shared lines keep their
+ * indexes and anything from `input.quoteItems.length` on belongs to the option.
+ */
+export const withOption = (input: QuoteInput, option?: { quoteItems: QuoteItem[]; laborLines: LaborLine[] }): QuoteInput => {
+  if (!option) return input;
+  return {
+    ...input,
+    quoteItems: [...input.quoteItems, ...option.quoteItems],
+    laborLines: [...input.laborLines, ...option.laborLines],
+  };
+};
+
+export interface OptionTotals {
+  id: string;
+  name: string;
+  /** The option priced together with the shared lines. */
+  totals: QuoteTotals;
+  /** Material lines of the option itself. */
+  lines: PricedLine[];
+  /** Labor lines of the option itself, without shared or assembly labor. */
+  laborLines: PricedLaborLine[];
+}
+
+export interface QuoteOptionsSummary {
+  /** Material lines every option includes. */
+  shared: PricedLine[];
+  options: OptionTotals[];
+}
+
+/** Prices each option on its own, with the shared lines of `input` included in every one. */
+export const priceOptions = (
+  input: QuoteInput,
+  options: { id: string; name: string; quoteItems: QuoteItem[]; laborLines: LaborLine[] }[]
+): QuoteOptionsSummary => {
+  const sharedCount = input.quoteItems.length;
+  const sharedLaborCount = input.laborLines.length;
+  return {
+    shared: calculateQuoteTotals(input).lines,
+    options: options.map(option => {
+      const totals = calculateQuoteTotals(withOption(input, option));
+      return {
+        id: option.id,
+        name: option.name,
+        totals,
+        lines: totals.lines.filter(line => line.index >= sharedCount),
+        laborLines: totals.labor.lines.filter(line => line.index >= sharedLaborCount && line.index < sharedLaborCount + option.laborLines.length),
+      };
+    }),
+  };
+};
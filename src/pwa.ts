@@ -0,0 +1,85 @@
+import { useSyncExternalStore } from 'react';
+
+type Listener = () => void;
+
+// A new version that has installed and is waiting for the app to hand over
+let waitingWorker: ServiceWorker | null = null;
+// Registration failed, so the app won't load without a connection
+let offlineUnavailable = false;
+const statusListeners = new Set<Listener>();
+
+const notifyStatus = () => statusListeners.forEach(listener => listener());
+
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+const setWaitingWorker = (worker: ServiceWorker) => {
+  waitingWorker = worker;
+  notifyStatus();
+};
+
+const watchInstalling = (worker: ServiceWorker | null) => {
+  worker?.addEventListener('statechange', () => {
+    // With no controller this is the first install, not an update
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaitingWorker(worker);
+  });
+};
+
+/**
+ * Installs the offline service worker. Updates are not applied on their own;
+ * useUpdateReady reports them so the user can reload when it suits them.
+ */
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js', { updateViaCache: 'none' }).then(registration => {
+      if (registration.waiting && navigator.serviceWorker.controller) setWaitingWorker(registration.waiting);
+      watchInstalling(registration.installing);
+      registration.addEventListener('updatefound', () => watchInstalling(registration.installing));
+      // Long job-site sessions never navigate, so look for a new version when the
+      // app is brought back to the front, at most once an hour
+      let lastCheck = Date.now();
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState !== 'visible' || Date.now() - lastCheck < UPDATE_CHECK_INTERVAL) return;
+        lastCheck = Date.now();
+        registration.update().catch(() => {});
+      });
+    }).catch(() => {
+      offlineUnavailable = true;
+      notifyStatus();
+    });
+
+    let reloading = false;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (reloading) return;
+      reloading = true;
+      window.location.reload();
+    });
+  });
+};
+
+/** Switches to the waiting version; the page reloads once it takes over. */
+export const applyUpdate = () => {
+  waitingWorker?.postMessage({ type: 'SKIP_WAITING' });
+};
+
+const subscribeStatus = (listener: Listener) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+export const useUpdateReady = () => useSyncExternalStore(subscribeStatus, () => waitingWorker !== null);
+
+export const useOfflineUnavailable = () => useSyncExternalStore(subscribeStatus, () => offlineUnavailable);
+
+const subscribeOnline = (listener: Listener) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+export const useOnline = () => useSyncExternalStore(subscribeOnline, () => navigator.onLine);
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { parseSettings } from './schema';
+import { DEFAULT_SETTINGS, SCHEMA_VERSION } from './types';
+
+// Settings as the first release stored them: no schemaVersion, wages as a plain
+// list, and saved quotes that point at library items instead of snapshotting them
+const V0_SETTINGS = {
+  targetHourly: 80,
+  wages: [20, 30],
+  globalMarkup: 50,
+  persistentItems: [
+    { id: 'pipe', name: 'Copper Pipe', cost: 10, useCustomMarkup: false, customMarkup: 0 },
+    { id: 'valve', name: 'Ball Valve', cost: 4, useCustomMarkup: true, customMarkup: 100 },
+  ],
+  savedQuotes: [
+    {
+      id: 'q1',
+      name: 'Kitchen',
+      date: '2024-03-05',
+      items: [
+        { itemId: 'pipe', quantity: 3 },
+        { itemId: 'valve', quantity: 2 },
+        { itemId: 'deleted', quantity: 1 },
+      ],
+      laborHours: 4,
+      customer: { name: 'Ann Lee', address: '', phone: '', email: '' },
+      totalPrice: 381,
+    },
+    {
+      id: 'q2',
+      name: 'Bathroom',
+      date: 'not a date',
+      items: [],
+      laborHours: 0,
+      customer: { name: ' ann lee ', address: '', phone: '', email: '' },
+      totalPrice: 0,
+    },
+  ],
+};
+
+const parse = (raw: unknown) => {
+  const result = parseSettings(raw);
+  if (!result.ok) throw new Error(result.errors.join('\n'));
+  return result;
+};
+
+describe('parseSettings', () => {
+  it('loads current settings unchanged', () => {
+    const result = parse(DEFAULT_SETTINGS);
+    expect(result.settings).toEqual(DEFAULT_SETTINGS);
+    expect(result.migratedFrom).toBe(SCHEMA_VERSION);
+  });
+
+  it('fills in fields missing from an older payload with defaults', () => {
+    const { settings } = parse({ schemaVersion: SCHEMA_VERSION, globalMarkup: 35 });
+    expect(settings.globalMarkup).toBe(35);
+    expect(settings.jobCosts).toEqual(DEFAULT_SETTINGS.jobCosts);
+    expect(settings.money).toEqual(DEFAULT_SETTINGS.money);
+  });
+
+  it('rejects anything that is not settings', () => {
+    expect(parseSettings(null)).toEqual({ ok: false, errors: ['Settings must be a JSON object, got null'] });
+    expect(parseSettings({ colour: 'blue' })).toEqual({ ok: false, errors: ['No recognizable settings fields found'] });
+  });
+
+  it('rejects settings from a newer version', () => {
+    const result = parseSettings({ ...DEFAULT_SETTINGS, schemaVersion: SCHEMA_VERSION + 1 });
+    expect(result.ok).toBe(false);
+  });
+
+  it('reports every field that fails validation', () => {
+    const result = parseSettings({ ...DEFAULT_SETTINGS, targetHourly: 'fast', laborRoles: {} });
+    expect(result).toEqual({
+      ok: false,
+      errors: ['targetHourly: expected a number, got a string', 'laborRoles: expected a list, got an object'],
+    });
+  });
+});
+
+describe('migrations from v0', () => {
+  const result = parse(V0_SETTINGS);
+  const { settings } = result;
+  const [kitchen, bathroom] = settings.savedQuotes;
+
+  it('upgrades to the current version', () => {
+    expect(result.migratedFrom).toBe(0);
+    expect(settings.schemaVersion).toBe(SCHEMA_VERSION);
+  });
+
+  it('snapshots quote lines against the library and drops lines for deleted items (v2)', () => {
+    expect(kitchen.items.map(qItem => qItem.itemId)).toEqual(['pipe', 'valve']);
+    expect(kitchen.items[0].snapshot).toMatchObject({ name: 'Copper Pipe', unitCost: 10, markup: 50 });
+    expect(kitchen.items[1].snapshot).toMatchObject({ name: 'Ball Valve', unitCost: 4, markup: 100 });
+  });
+
+  it('keeps old quote totals by recording no tax (v3) and no discount (v4)', () => {
+    expect(settings.persistentItems.every(item => item.taxable)).toBe(true);
+    expect(kitchen.items.every(qItem => !qItem.snapshot.taxable)).toBe(true);
+    expect(kitchen).toMatchObject({ tax: { rates: [], taxLabor: false }, subtotal: 381, taxLines: [], totalTax: 0, discountTotal: 0 });
+  });
+
+  it('turns wages into labor roles and splits quoted hours across them (v5)', () => {
+    expect(settings.laborRoles).toEqual([
+      { id: 'role-1', name: 'Worker 1', wage: 20, billRate: null },
+      { id: 'role-2', name: 'Worker 2', wage: 30, billRate: null },
+    ]);
+    expect(kitchen.laborRates.roles.map(role => role.wage)).toEqual([20, 30]);
+    expect(kitchen.laborLines).toEqual([{ roleId: 'role-1', hours: 2 }, { roleId: 'role-2', hours: 2 }]);
+    expect(bathroom.laborLines).toEqual([]);
+  });
+
+  it('starts every quote as a draft dated when it was saved (v6)', () => {
+    expect(kitchen.status).toBe('draft');
+    expect(kitchen.statusHistory).toEqual([{ status: 'draft', at: new Date('2024-03-05').toISOString() }]);
+    expect(bathroom.statusHistory).toHaveLength(1);
+  });
+
+  it('groups quotes by customer name into one customer record (v7)', () => {
+    expect(settings.customers).toEqual([{ id: 'customer-1', name: 'Ann Lee', address: '', phone: '', email: '', notes: '' }]);
+    expect(kitchen.customerId).toBe('customer-1');
+    expect(bathroom.customerId).toBe('customer-1');
+  });
+
+  it('gives library items the fields added since (v8 to v11)', () => {
+    expect(settings.persistentItems[0]).toEqual({
+      id: 'pipe',
+      name: 'Copper Pipe',
+      sku: '',
+      category: '',
+      unit: 'each',
+      supplier: '',
+      notes: '',
+      cost: 10,
+      useCustomMarkup: false,
+      customMarkup: 0,
+      taxable: true,
+      parts: [],
+      labor: [],
+      costHistory: [],
+    });
+    expect(kitchen.items[0].snapshot.unit).toBe('each');
+  });
+});
+
+describe('labor role migration (v4 to v5)', () => {
+  it('gives a quote with no wages an unpaid role', () => {
+    const { settings } = parse({ schemaVersion: 4, wages: [] });
+    expect(settings.laborRoles).toEqual([{ id: 'role-1', name: 'Worker', wage: 0, billRate: null }]);
+  });
+
+  it('reports wages that are not a list', () => {
+    expect(parseSettings({ schemaVersion: 4, wages: 25 })).toEqual({
+      ok: false,
+      errors: ['laborRoles: expected a list, got a number'],
+    });
+  });
+});
@@ -0,0 +1,651 @@
+import { DEFAULT_SETTINGS, QUOTE_STATUSES, SCHEMA_VERSION } from './types';
+import type { AppSettings } from './types';
+
+type RawSettings = Record<string, unknown>;
+type Migration = (data: RawSettings) => RawSettings;
+
+export type SettingsParseResult =
+  | { ok: true; settings: AppSettings; migratedFrom: number }
+  | { ok: false; errors: string[] };
+
+// MIGRATIONS[n] upgrades a payload from version n to n + 1.
+// Payloads written before versioning existed have no schemaVersion and count as version 0.
+const MIGRATIONS: Migration[] = [
+  // 0 -> 1: introduce schemaVersion, no structural changes
+  data => ({ ...data }),
+  // 1 -> 2: saved quotes carry price snapshots instead of library references.
+  // Older quotes are snapshotted against the library and rates as they are now;
+  // lines whose item was already deleted could not be priced before and are dropped.
+  data => {
+    if (!Array.isArray(data.savedQuotes)) return data;
+    const library = Array.isArray(data.persistentItems) ? data.persistentItems.filter(isObject) : [];
+    const globalMarkup = isNumber(data.globalMarkup) ? data.globalMarkup : DEFAULT_SETTINGS.globalMarkup;
+    const laborRates = {
+      targetHourly: isNumber(data.targetHourly) ? data.targetHourly : DEFAULT_SETTINGS.targetHourly,
+      // [25] was the default wage list in v1
+      wages: Array.isArray(data.wages) ? data.wages : [25],
+    };
+    return {
+      ...data,
+      savedQuotes: data.savedQuotes.map(quote => {
+        if (!isObject(quote) || !Array.isArray(quote.items)) return quote;
+        const items = quote.items.flatMap(qItem => {
+          if (!isObject(qItem)) return [qItem];
+          const pItem = library.find(i => i.id === qItem.itemId);
+          if (!pItem) return [];
+          const snapshot = {
+            name: pItem.name,
+            unitCost: pItem.cost,
+            markup: pItem.useCustomMarkup ? pItem.customMarkup : globalMarkup,
+          };
+          return [{ ...qItem, snapshot }];
+        });
+        return { laborRates, ...quote, items };
+      }),
+    };
+  },
+  // 2 -> 3: sales tax. Library items become taxable by default; quotes saved before
+  // tax existed keep their totals by recording no tax and non-taxable snapshots.
+  data => ({
+    ...data,
+    persistentItems: Array.isArray(data.persistentItems)
+      ? data.persistentItems.map(item => (isObject(item) ? { taxable: true, ...item } : item))
+      : data.persistentItems,
+    savedQuotes: Array.isArray(data.savedQuotes)
+      ? data.savedQuotes.map(quote => {
+        if (!isObject(quote)) return quote;
+        const items = Array.isArray(quote.items)
+          ? quote.items.map(qItem => (isObject(qItem) && isObject(qItem.snapshot)
+            ? { ...qItem, snapshot: { taxable: false, ...qItem.snapshot } }
+            : qItem))
+          : quote.items;
+        return {
+          tax: { rates: [], taxLabor: false },
+          subtotal: quote.totalPrice,
+          taxLines: [],
+          totalTax: 0,
+          ...quote,
+          items,
+        };
+      })
+      : data.savedQuotes,
+  }),
+  // 3 -> 4: discounts. Nothing was ever discounted before.
+  data => ({
+    ...data,
+    savedQuotes: Array.isArray(data.savedQuotes)
+      ? data.savedQuotes.map(quote => (isObject(quote) ? { discountTotal: 0, ...quote } : quote))
+      : data.savedQuotes,
+  }),
+  // 4 -> 5: labor roles. Each wage becomes a role and the old single hours figure
+  // is split evenly across them, which is exactly how it used to be costed.
+  data => {
+    const { wages, ...rest } = data;
+    return {
+      ...rest,
+      laborRoles: data.laborRoles ?? (wages === undefined ? undefined : rolesFromWages(wages)),
+      savedQuotes: Array.isArray(data.savedQuotes)
+        ? data.savedQuotes.map(quote => {
+          if (!isObject(quote) || !isObject(quote.laborRates) || 'laborLines' in quote) return quote;
+          const { laborHours, ...quoteRest } = quote;
+          const { wages: quoteWages, ...ratesRest } = quote.laborRates;
+          const roles = rolesFromWages(quoteWages);
+          const hours = isNumber(laborHours) ? laborHours : 0;
+          return {
+            ...quoteRest,
+            laborRates: { ...ratesRest, roles },
+            laborLines: hours > 0 && Array.isArray(roles) ? roles.map(role => ({ roleId: role.id, hours: hours / roles.length })) : [],
+          };
+        })
+        : data.savedQuotes,
+    };
+  },
+  // 5 -> 6: quote lifecycle. Everything saved so far starts as a draft, dated
+  // from the saved date when it can be read back, otherwise from the upgrade.
+  data => ({
+    ...data,
+    savedQuotes: Array.isArray(data.savedQuotes)
+      ? data.savedQuotes.map(quote => {
+        if (!isObject(quote) || 'status' in quote) return quote;
+        const parsed = typeof quote.date === 'string' ? new Date(quote.date) : null;
+        const at = parsed && !Number.isNaN(parsed.getTime()) ? parsed.toISOString() : new Date().toISOString();
+        return { ...quote, status: 'draft', statusHistory: [{ status: 'draft', at }] };
+      })
+      : data.savedQuotes,
+  }),
+  // 6 -> 7: customer records. Quotes that already carry contact details are
+  // grouped by customer name so a repeat customer becomes a single record.
+  data => {
+    if (!Array.isArray(data.savedQuotes)) return { ...data, customers: [] };
+    const customers: RawSettings[] = [];
+    const byName = new Map<string, RawSettings>();
+    const savedQuotes = data.savedQuotes.map(quote => {
+      if (!isObject(quote) || !isObject(quote.customer) || typeof quote.customer.name !== 'string') return quote;
+      const key = quote.customer.name.trim().toLowerCase();
+      if (!key) return quote;
+      let record = byName.get(key);
+      if (!record) {
+        record = { ...quote.customer, id: `customer-${customers.length + 1}`, notes: '' };
+        byName.set(key, record);
+        customers.push(record);
+      }
+      return { ...quote, customerId: record.id };
+    });
+    return { ...data, savedQuotes, customers };
+  },
+  // 7 -> 8: library items get a SKU for price list imports
+  data => ({
+    ...data,
+    persistentItems: Array.isArray(data.persistentItems)
+      ? data.persistentItems.map(item => (isObject(item) ? { sku: '', ...item } : item))
+      : data.persistentItems,
+  }),
+  // 8 -> 9: category, unit, supplier and notes on library items. Everything
+  // priced so far was priced per piece, so saved snapshots are 'each'.
+  data => ({
+    ...data,
+    persistentItems: Array.isArray(data.persistentItems)
+      ? data.persistentItems.map(item => (isObject(item) ? { category: '', unit: 'each', supplier: '', notes: '', ...item } : item))
+      : data.persistentItems,
+    savedQuotes: Array.isArray(data.savedQuotes)
+      ? data.savedQuotes.map(quote => {
+        if (!isObject(quote) || !Array.isArray(quote.items)) return quote;
+        return {
+          ...quote,
+          items: quote.items.map(item => (
+            isObject(item) && isObject(item.snapshot) ? { ...item, snapshot: { unit: 'each', ...item.snapshot } } : item
+          )),
+        };
+      })
+      : data.savedQuotes,
+  }),
+  // 9 -> 10: assemblies. Existing items are plain items with no parts or labor.
+  data => ({
+    ...data,
+    persistentItems: Array.isArray(data.persistentItems)
+      ? data.persistentItems.map(item => (isObject(item) ? { parts: [], labor: [], ...item } : item))
+      : data.persistentItems,
+  }),
+  // 10 -> 11: cost history. Earlier cost edits were not recorded, so it starts empty.
+  data => ({
+    ...data,
+    persistentItems: Array.isArray(data.persistentItems)
+      ? data.persistentItems.map(item => (isObject(item) ? { costHistory: [], ...item } : item))
+      : data.persistentItems,
+  }),
+];
+
+// Used by the 4 -> 5 migration. A quote with no wages still billed its hours, so it gets an unpaid role.
+// Wages that aren't a list at all are passed through as the roles, for validation to report.
+const rolesFromWages = (wages: unknown) => {
+  if (!Array.isArray(wages)) return wages;
+  const list = wages.length > 0 ? wages : [0];
+  return list.map((wage, idx) => ({
+    id: `role-${idx + 1}`,
+    name: list.length > 1 ? `Worker ${idx + 1}` : 'Worker',
+    wage,
+    billRate: null,
+  }));
+};
+
+const isObject = (val: unknown): val is RawSettings =>
+  typeof val === 'object' && val !== null && !Array.isArray(val);
+
+const isNumber = (val: unknown): val is number =>
+  typeof val === 'number' && Number.isFinite(val);
+
+const describe = (val: unknown) => {
+  if (val === undefined) return 'nothing';
+  if (val === null) return 'null';
+  if (Array.isArray(val)) return 'an array';
+  if (typeof val === 'number' && !Number.isFinite(val)) return String(val);
+  if (typeof val === 'object') return 'an object';
+  return `a ${typeof val}`;
+};
+
+const expectNumber = (errors: string[], path: string, val: unknown) => {
+  if (!isNumber(val)) errors.push(`${path}: expected a number, got ${describe(val)}`);
+};
+
+const expectString = (errors: string[], path: string, val: unknown) => {
+  if (typeof val !== 'string') errors.push(`${path}: expected text, got ${describe(val)}`);
+};
+
+const expectBoolean = (errors: string[], path: string, val: unknown) => {
+  if (typeof val !== 'boolean') errors.push(`${path}: expected true/false, got ${describe(val)}`);
+};
+
+const expectArray = (errors: string[], path: string, val: unknown): val is unknown[] => {
+  if (Array.isArray(val)) return true;
+  errors.push(`${path}: expected a list, got ${describe(val)}`);
+  return false;
+};
+
+const expectObject = (errors: string[], path: string, val: unknown): val is RawSettings => {
+  if (isObject(val)) return true;
+  errors.push(`${path}: expected an object, got ${describe(val)}`);
+  return false;
+};
+
+export const validateLaborLine = (errors: string[], path: string, line: unknown) => {
+  if (!expectObject(errors, path, line)) return;
+  expectString(errors, `${path}.roleId`, line.roleId);
+  expectNumber(errors, `${path}.hours`, line.hours);
+};
+
+const validateLaborLines = (errors: string[], path: string, lines: unknown) => {
+  if (!expectArray(errors, path, lines)) return;
+  lines.forEach((line, lineIdx) => validateLaborLine(errors, `${path}[${lineIdx}]`, line));
+};
+
+const validateAssemblyParts = (errors: string[], path: string, parts: unknown, withSnapshot: boolean) => {
+  if (!expectArray(errors, path, parts)) return;
+  parts.forEach((part, partIdx) => {
+    const partPath = `${path}[${partIdx}]`;
+    if (!expectObject(errors, partPath, part)) return;
+    expectString(errors, `${partPath}.itemId`, part.itemId);
+    expectNumber(errors, `${partPath}.quantity`, part.quantity);
+    if (withSnapshot && expectObject(errors, `${partPath}.snapshot`, part.snapshot)) {
+      validateLineSnapshot(errors, `${partPath}.snapshot`, part.snapshot);
+    }
+  });
+};
+
+const validateMarkupSource = (errors: string[], path: string, source: unknown) => {
+  if (!expectObject(errors, path, source)) return;
+  expectOneOf(errors, `${path}.type`, source.type, ['item', 'category', 'bracket', 'global']);
+  if (source.type === 'category') expectString(errors, `${path}.category`, source.category);
+  if (source.type === 'bracket') {
+    expectNumber(errors, `${path}.min`, source.min);
+    if (source.max !== null) expectNumber(errors, `${path}.max`, source.max);
+  }
+};
+
+const validateLineSnapshot = (errors: string[], path: string, snapshot: RawSettings) => {
+  expectString(errors, `${path}.name`, snapshot.name);
+  expectString(errors, `${path}.unit`, snapshot.unit);
+  expectNumber(errors, `${path}.unitCost`, snapshot.unitCost);
+  expectNumber(errors, `${path}.markup`, snapshot.markup);
+  if (snapshot.markupSource !== undefined) validateMarkupSource(errors, `${path}.markupSource`, snapshot.markupSource);
+  expectBoolean(errors, `${path}.taxable`, snapshot.taxable);
+  if (snapshot.parts !== undefined) validateAssemblyParts(errors, `${path}.parts`, snapshot.parts, true);
+  if (snapshot.labor !== undefined) validateLaborLines(errors, `${path}.labor`, snapshot.labor);
+};
+
+const validateSavedItems = (errors: string[], path: string, items: unknown) => {
+  if (!expectArray(errors, path, items)) return;
+  items.forEach((qItem, itemIdx) => {
+    const itemPath = `${path}[${itemIdx}]`;
+    if (!expectObject(errors, itemPath, qItem)) return;
+    expectString(errors, `${itemPath}.itemId`, qItem.itemId);
+    expectNumber(errors, `${itemPath}.quantity`, qItem.quantity);
+    validateDiscount(errors, `${itemPath}.discount`, qItem.discount);
+    if (expectObject(errors, `${itemPath}.snapshot`, qItem.snapshot)) {
+      validateLineSnapshot(errors, `${itemPath}.snapshot`, qItem.snapshot);
+    }
+  });
+};
+
+/** A line of the working quote, which is only priced from a snapshot once it has one. */
+export const validateQuoteItem = (errors: string[], path: string, qItem: unknown) => {
+  if (!expectObject(errors, path, qItem)) return;
+  expectString(errors, `${path}.itemId`, qItem.itemId);
+  expectNumber(errors, `${path}.quantity`, qItem.quantity);
+  validateDiscount(errors, `${path}.discount`, qItem.discount);
+  if (qItem.snapshot !== undefined && expectObject(errors, `${path}.snapshot`, qItem.snapshot)) {
+    validateLineSnapshot(errors, `${path}.snapshot`, qItem.snapshot);
+  }
+};
+
+/** An option of the working quote. */
+export const validateQuoteOption = (errors: string[], path: string, option: unknown) => {
+  if (!expectObject(errors, path, option)) return;
+  expectString(errors, `${path}.id`, option.id);
+  expectString(errors, `${path}.name`, option.name);
+  if (expectArray(errors, `${path}.quoteItems`, option.quoteItems)) {
+    option.quoteItems.forEach((qItem, itemIdx) => validateQuoteItem(errors, `${path}.quoteItems[${itemIdx}]`, qItem));
+  }
+  validateLaborLines(errors, `${path}.laborLines`, option.laborLines);
+};
+
+const validateDiscount = (errors: string[], path: string, discount: unknown) => {
+  if (discount === undefined || !expectObject(errors, path, discount)) return;
+  if (discount.type !== 'percent' && discount.type !== 'amount') {
+    errors.push(`${path}.type: expected "percent" or "amount", got ${describe(discount.type)}`);
+  }
+  expectNumber(errors, `${path}.value`, discount.value);
+};
+
+const validateOverrides = (errors: string[], path: string, overrides: unknown) => {
+  if (overrides === undefined || !expectObject(errors, path, overrides)) return;
+  if (overrides.markup !== null) expectNumber(errors, `${path}.markup`, overrides.markup);
+  if (overrides.hourlyRate !== null) expectNumber(errors, `${path}.hourlyRate`, overrides.hourlyRate);
+  expectNumber(errors, `${path}.adjustment`, overrides.adjustment);
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const expectOneOf = (errors: string[], path: string, val: unknown, options: readonly string[]) => {
+  if (!options.includes(val as never)) {
+    errors.push(`${path}: expected one of ${options.join(', ')}, got ${describe(val)}`);
+  }
+};
+
+const expectStatus = (errors: string[], path: string, val: unknown) => {
+  expectOneOf(errors, path, val, QUOTE_STATUSES);
+};
+
+const expectDate = (errors: string[], path: string, val: unknown) => {
+  if (typeof val !== 'string' || !DATE_PATTERN.test(val)) {
+    errors.push(`${path}: expected a date (YYYY-MM-DD), got ${describe(val)}`);
+  }
+};
+
+const expectOptionalDate = (errors: string[], path: string, val: unknown) => {
+  if (val !== undefined) expectDate(errors, path, val);
+};
+
+const validateRounding = (errors: string[], path: string, rounding: RawSettings) => {
+  expectOneOf(errors, `${path}.mode`, rounding.mode, ['line', 'total']);
+  expectOneOf(errors, `${path}.priceScope`, rounding.priceScope, ['none', 'line', 'total']);
+  expectOneOf(errors, `${path}.priceRule`, rounding.priceRule, ['dollar', 'five', 'ninety-nine']);
+};
+
+const validateJobCosts = (errors: string[], path: string, jobCosts: RawSettings) => {
+  expectNumber(errors, `${path}.burdenPercent`, jobCosts.burdenPercent);
+  expectOneOf(errors, `${path}.overheadBasis`, jobCosts.overheadBasis, ['hour', 'percent']);
+  expectNumber(errors, `${path}.overheadRate`, jobCosts.overheadRate);
+  expectNumber(errors, `${path}.tripCharge`, jobCosts.tripCharge);
+  expectNumber(errors, `${path}.minimumPrice`, jobCosts.minimumPrice);
+};
+
+const validateActuals = (errors: string[], path: string, actuals: RawSettings) => {
+  if (expectArray(errors, `${path}.materials`, actuals.materials)) {
+    actuals.materials.forEach((material, idx) => {
+      const materialPath = `${path}.materials[${idx}]`;
+      if (!expectObject(errors, materialPath, material)) return;
+      expectString(errors, `${materialPath}.id`, material.id);
+      if (material.itemId !== null) expectString(errors, `${materialPath}.itemId`, material.itemId);
+      expectString(errors, `${materialPath}.name`, material.name);
+      expectString(errors, `${materialPath}.unit`, material.unit);
+      expectNumber(errors, `${materialPath}.quantity`, material.quantity);
+      expectNumber(errors, `${materialPath}.unitCost`, material.unitCost);
+    });
+  }
+  if (expectArray(errors, `${path}.labor`, actuals.labor)) {
+    actuals.labor.forEach((entry, idx) => {
+      const entryPath = `${path}.labor[${idx}]`;
+      if (!expectObject(errors, entryPath, entry)) return;
+      expectString(errors, `${entryPath}.id`, entry.id);
+      expectString(errors, `${entryPath}.person`, entry.person);
+      expectString(errors, `${entryPath}.roleId`, entry.roleId);
+      expectNumber(errors, `${entryPath}.hours`, entry.hours);
+    });
+  }
+};
+
+const validateTaxSettings = (errors: string[], path: string, tax: RawSettings) => {
+  expectBoolean(errors, `${path}.taxLabor`, tax.taxLabor);
+  if (expectArray(errors, `${path}.rates`, tax.rates)) {
+    tax.rates.forEach((rate, idx) => {
+      const ratePath = `${path}.rates[${idx}]`;
+      if (!expectObject(errors, ratePath, rate)) return;
+      expectString(errors, `${ratePath}.id`, rate.id);
+      expectString(errors, `${ratePath}.name`, rate.name);
+      expectNumber(errors, `${ratePath}.rate`, rate.rate);
+    });
+  }
+};
+
+const validateLaborRoles = (errors: string[], path: string, roles: unknown) => {
+  if (!expectArray(errors, path, roles)) return;
+  roles.forEach((role, idx) => {
+    const rolePath = `${path}[${idx}]`;
+    if (!expectObject(errors, rolePath, role)) return;
+    expectString(errors, `${rolePath}.id`, role.id);
+    expectString(errors, `${rolePath}.name`, role.name);
+    expectNumber(errors, `${rolePath}.wage`, role.wage);
+    if (role.billRate !== null) expectNumber(errors, `${rolePath}.billRate`, role.billRate);
+  });
+};
+
+const validateLaborRates = (errors: string[], path: string, rates: RawSettings) => {
+  expectNumber(errors, `${path}.targetHourly`, rates.targetHourly);
+  validateLaborRoles(errors, `${path}.roles`, rates.roles);
+};
+
+const validateCustomerDetails = (errors: string[], path: string, customer: RawSettings) => {
+  ['name', 'address', 'phone', 'email'].forEach(key => expectString(errors, `${path}.${key}`, customer[key]));
+};
+
+/**
+ * Checks a fully migrated settings payload and returns one message per invalid field.
+ * An empty array means the payload is safe to use as AppSettings.
+ */
+export const validateSettings = (data: RawSettings): string[] => {
+  const errors: string[] = [];
+
+  expectNumber(errors, 'schemaVersion', data.schemaVersion);
+  expectNumber(errors, 'targetHourly', data.targetHourly);
+  expectNumber(errors, 'globalMarkup', data.globalMarkup);
+  expectNumber(errors, 'marginFloor', data.marginFloor);
+  expectNumber(errors, 'quoteValidityDays', data.quoteValidityDays);
+  if (expectObject(errors, 'jobCosts', data.jobCosts)) {
+    validateJobCosts(errors, 'jobCosts', data.jobCosts);
+  }
+
+  validateLaborRoles(errors, 'laborRoles', data.laborRoles);
+
+  if (expectArray(errors, 'pricingProfiles', data.pricingProfiles)) {
+    data.pricingProfiles.forEach((profile, idx) => {
+      const path = `pricingProfiles[${idx}]`;
+      if (!expectObject(errors, path, profile)) return;
+      expectString(errors, `${path}.id`, profile.id);
+      expectString(errors, `${path}.name`, profile.name);
+      expectNumber(errors, `${path}.targetHourly`, profile.targetHourly);
+      expectNumber(errors, `${path}.globalMarkup`, profile.globalMarkup);
+      if (expectArray(errors, `${path}.roleRates`, profile.roleRates)) {
+        profile.roleRates.forEach((rate, rateIdx) => {
+          const ratePath = `${path}.roleRates[${rateIdx}]`;
+          if (!expectObject(errors, ratePath, rate)) return;
+          expectString(errors, `${ratePath}.roleId`, rate.roleId);
+          expectNumber(errors, `${ratePath}.wage`, rate.wage);
+          if (rate.billRate !== null) expectNumber(errors, `${ratePath}.billRate`, rate.billRate);
+        });
+      }
+    });
+  }
+
+  if (expectObject(errors, 'markupRules', data.markupRules)) {
+    const { categories, brackets } = data.markupRules;
+    if (expectArray(errors, 'markupRules.categories', categories)) {
+      categories.forEach((rule, idx) => {
+        const path = `markupRules.categories[${idx}]`;
+        if (!expectObject(errors, path, rule)) return;
+        expectString(errors, `${path}.id`, rule.id);
+        expectString(errors, `${path}.category`, rule.category);
+        expectNumber(errors, `${path}.markup`, rule.markup);
+      });
+    }
+    if (expectArray(errors, 'markupRules.brackets', brackets)) {
+      brackets.forEach((bracket, idx) => {
+        const path = `markupRules.brackets[${idx}]`;
+        if (!expectObject(errors, path, bracket)) return;
+        expectString(errors, `${path}.id`, bracket.id);
+        expectNumber(errors, `${path}.min`, bracket.min);
+        if (bracket.max !== null) expectNumber(errors, `${path}.max`, bracket.max);
+        expectNumber(errors, `${path}.markup`, bracket.markup);
+      });
+    }
+  }
+
+  if (expectArray(errors, 'persistentItems', data.persistentItems)) {
+    data.persistentItems.forEach((item, idx) => {
+      const path = `persistentItems[${idx}]`;
+      if (!expectObject(errors, path, item)) return;
+      expectString(errors, `${path}.id`, item.id);
+      expectString(errors, `${path}.name`, item.name);
+      ['sku', 'category', 'unit', 'supplier', 'notes'].forEach(key => expectString(errors, `${path}.${key}`, item[key]));
+      expectNumber(errors, `${path}.cost`, item.cost);
+      expectBoolean(errors, `${path}.useCustomMarkup`, item.useCustomMarkup);
+      expectNumber(errors, `${path}.customMarkup`, item.customMarkup);
+      expectBoolean(errors, `${path}.taxable`, item.taxable);
+      validateAssemblyParts(errors, `${path}.parts`, item.parts, false);
+      validateLaborLines(errors, `${path}.labor`, item.labor);
+      if (expectArray(errors, `${path}.costHistory`, item.costHistory)) {
+        item.costHistory.forEach((change, changeIdx) => {
+          const changePath = `${path}.costHistory[${changeIdx}]`;
+          if (!expectObject(errors, changePath, change)) return;
+          expectDate(errors, `${changePath}.date`, change.date);
+          expectNumber(errors, `${changePath}.from`, change.from);
+          expectNumber(errors, `${changePath}.to`, change.to);
+        });
+      }
+    });
+  }
+
+  if (expectArray(errors, 'savedQuotes', data.savedQuotes)) {
+    data.savedQuotes.forEach((quote, idx) => {
+      const path = `savedQuotes[${idx}]`;
+      if (!expectObject(errors, path, quote)) return;
+      expectString(errors, `${path}.id`, quote.id);
+      expectString(errors, `${path}.name`, quote.name);
+      expectString(errors, `${path}.date`, quote.date);
+      validateLaborLines(errors, `${path}.laborLines`, quote.laborLines);
+      expectNumber(errors, `${path}.discountTotal`, quote.discountTotal);
+      validateDiscount(errors, `${path}.discount`, quote.discount);
+      validateOverrides(errors, `${path}.overrides`, quote.overrides);
+      if (quote.customerId !== undefined) expectString(errors, `${path}.customerId`, quote.customerId);
+      if (quote.pricingProfileId !== undefined) expectString(errors, `${path}.pricingProfileId`, quote.pricingProfileId);
+      expectStatus(errors, `${path}.status`, quote.status);
+      expectOptionalDate(errors, `${path}.expiresOn`, quote.expiresOn);
+      expectOptionalDate(errors, `${path}.followUpOn`, quote.followUpOn);
+      if (expectArray(errors, `${path}.statusHistory`, quote.statusHistory)) {
+        quote.statusHistory.forEach((change, changeIdx) => {
+          const changePath = `${path}.statusHistory[${changeIdx}]`;
+          if (!expectObject(errors, changePath, change)) return;
+          expectStatus(errors, `${changePath}.status`, change.status);
+          expectString(errors, `${changePath}.at`, change.at);
+        });
+      }
+      expectNumber(errors, `${path}.subtotal`, quote.subtotal);
+      expectNumber(errors, `${path}.totalTax`, quote.totalTax);
+      expectNumber(errors, `${path}.totalPrice`, quote.totalPrice);
+      if (expectObject(errors, `${path}.tax`, quote.tax)) {
+        validateTaxSettings(errors, `${path}.tax`, quote.tax);
+      }
+      if (expectArray(errors, `${path}.taxLines`, quote.taxLines)) {
+        quote.taxLines.forEach((line, lineIdx) => {
+          const linePath = `${path}.taxLines[${lineIdx}]`;
+          if (!expectObject(errors, linePath, line)) return;
+          expectString(errors, `${linePath}.name`, line.name);
+          expectNumber(errors, `${linePath}.rate`, line.rate);
+          expectNumber(errors, `${linePath}.amount`, line.amount);
+        });
+      }
+      if (expectObject(errors, `${path}.laborRates`, quote.laborRates)) {
+        validateLaborRates(errors, `${path}.laborRates`, quote.laborRates);
+      }
+      validateSavedItems(errors, `${path}.items`, quote.items);
+      if (quote.options !== undefined && expectArray(errors, `${path}.options`, quote.options)) {
+        quote.options.forEach((option, optionIdx) => {
+          const optionPath = `${path}.options[${optionIdx}]`;
+          if (!expectObject(errors, optionPath, option)) return;
+          expectString(errors, `${optionPath}.id`, option.id);
+          expectString(errors, `${optionPath}.name`, option.name);
+          validateSavedItems(errors, `${optionPath}.items`, option.items);
+          validateLaborLines(errors, `${optionPath}.laborLines`, option.laborLines);
+        });
+      }
+      if (quote.chosenOptionId !== undefined) expectString(errors, `${path}.chosenOptionId`, quote.chosenOptionId);
+      if (quote.customer !== undefined && expectObject(errors, `${path}.customer`, quote.customer)) {
+        validateCustomerDetails(errors, `${path}.customer`, quote.customer);
+      }
+      if (quote.rounding !== undefined && expectObject(errors, `${path}.rounding`, quote.rounding)) {
+        validateRounding(errors, `${path}.rounding`, quote.rounding);
+      }
+      if (quote.jobCosts !== undefined && expectObject(errors, `${path}.jobCosts`, quote.jobCosts)) {
+        validateJobCosts(errors, `${path}.jobCosts`, quote.jobCosts);
+      }
+      if (quote.actuals !== undefined && expectObject(errors, `${path}.actuals`, quote.actuals)) {
+        validateActuals(errors, `${path}.actuals`, quote.actuals);
+      }
+    });
+  }
+
+  if (expectArray(errors, 'customers', data.customers)) {
+    data.customers.forEach((customer, idx) => {
+      const path = `customers[${idx}]`;
+      if (!expectObject(errors, path, customer)) return;
+      expectString(errors, `${path}.id`, customer.id);
+      validateCustomerDetails(errors, path, customer);
+      expectString(errors, `${path}.notes`, customer.notes);
+    });
+  }
+
+  const business = data.business;
+  if (expectObject(errors, 'business', business)) {
+    ['name', 'logo', 'address', 'phone', 'email', 'terms'].forEach(key => {
+      expectString(errors, `business.${key}`, business[key]);
+    });
+  }
+
+  expectOneOf(errors, 'shareView', data.shareView, ['customer', 'internal']);
+
+  if (expectObject(errors, 'tax', data.tax)) {
+    validateTaxSettings(errors, 'tax', data.tax);
+  }
+
+  const money = data.money;
+  if (expectObject(errors, 'money', money)) {
+    expectString(errors, 'money.currency', money.currency);
+    expectString(errors, 'money.locale', money.locale);
+    if (expectObject(errors, 'money.rounding', money.rounding)) {
+      validateRounding(errors, 'money.rounding', money.rounding);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Upgrades a settings payload of any known version to the current schema,
+ * fills missing top-level fields from DEFAULT_SETTINGS and validates the result.
+ */
+export const parseSettings = (raw: unknown): SettingsParseResult => {
+  if (!isObject(raw)) {
+    return { ok: false, errors: [`Settings must be a JSON object, got ${describe(raw)}`] };
+  }
+
+  const knownKeys = Object.keys(DEFAULT_SETTINGS);
+  if (!Object.keys(raw).some(key => knownKeys.includes(key))) {
+    return { ok: false, errors: ['No recognizable settings fields found'] };
+  }
+
+  const version = raw.schemaVersion ?? 0;
+  if (!isNumber(version) || !Number.isInteger(version) || version < 0) {
+    return { ok: false, errors: [`schemaVersion: expected a whole number, got ${describe(version)}`] };
+  }
+  if (version > SCHEMA_VERSION) {
+    return {
+      ok: false,
+      errors: [`schemaVersion: data is from a newer version of the app (v${version}, this app supports up to v${SCHEMA_VERSION})`],
+    };
+  }
+
+  let data: RawSettings = { ...raw };
+  for (let v = version; v < SCHEMA_VERSION; v++) {
+    data = MIGRATIONS[v](data);
+  }
+
+  const filled: RawSettings = { ...DEFAULT_SETTINGS };
+  Object.entries(data).forEach(([key, val]) => {
+    if (val !== undefined) filled[key] = val;
+  });
+  filled.schemaVersion = SCHEMA_VERSION;
+
+  const errors = validateSettings(filled);
+  if (errors.length > 0) return { ok: false, errors };
+
+  return { ok: true, settings: filled as unknown as AppSettings, migratedFrom: version };
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { createShareLink, isShareLink, readShareLink } from './share';
+import type { SharedQuote } from './share';
+import { calculateSavedQuoteTotals } from './history';
+import { DEFAULT_SETTINGS, NO_JOB_COSTS, NO_OVERRIDES } from './types';
+import { savedLine, savedQuote } from './test-fixtures';
+
+const BASE = 'https://quotes.example/';
+
+const QUOTE = savedQuote({
+  id: 'q1',
+  name: 'Kitchen',
+  items: [savedLine('pipe', 3, { name: 'Copper Pipe', unitCost: 10, markup: 50 })],
+  laborLines: [{ roleId: 'role-1', hours: 2 }],
+  overrides: { ...NO_OVERRIDES, markup: 60 },
+  jobCosts: { ...NO_JOB_COSTS, burdenPercent: 20, overheadRate: 15, tripCharge: 40 },
+  customerId: 'customer-1',
+  actuals: { materials: [], labor: [{ id: 'l1', person: 'Sam', roleId: 'role-1', hours: 3 }] },
+  status: 'accepted',
+  statusHistory: [
+    { status: 'draft', at: '2026-01-15T12:00:00.000Z' },
+    { status: 'sent', at: '2026-01-16T12:00:00.000Z' },
+    { status: 'accepted', at: '2026-01-20T12:00:00.000Z' },
+  ],
+  expiresOn: '2026-02-15',
+  followUpOn: '2026-01-19',
+});
+
+const share = (view: SharedQuote['view']): SharedQuote => ({
+  quote: QUOTE,
+  business: { ...DEFAULT_SETTINGS.business, name: 'Acme Plumbing', logo: 'data:image/png;base64,AAAA' },
+  money: DEFAULT_SETTINGS.money,
+  view,
+});
+
+/** Creates a link and reads it back, as the receiver would. */
+const roundTrip = async (view: SharedQuote['view']) => {
+  const link = await createShareLink(share(view), BASE);
+  const result = await readShareLink(link.slice(BASE.length));
+  if (!result.ok) throw new Error(result.errors.join('\n'));
+  return { link, shared: result.shared };
+};
+
+describe('share links', () => {
+  it('carries everything in the URL fragment', async () => {
+    const { link } = await roundTrip('customer');
+    expect(link.startsWith(`${BASE}#share=`)).toBe(true);
+    expect(isShareLink(link.slice(BASE.length))).toBe(true);
+    expect(link).toMatch(/^[\w:/.#=-]+$/);
+  });
+
+  it('gives the internal view the whole quote, without record ids or the logo', async () => {
+    const { shared } = await roundTrip('internal');
+    expect(shared.view).toBe('internal');
+    expect(shared.quote).toEqual({ ...QUOTE, customerId: undefined, pricingProfileId: undefined });
+    expect(shared.business).toMatchObject({ name: 'Acme Plumbing', logo: '' });
+  });
+
+  it('hides costs from the customer view while keeping the customer totals', async () => {
+    const { shared } = await roundTrip('customer');
+    const { quote } = shared;
+    const [line] = quote.items;
+    expect(line.snapshot).toMatchObject({ unitCost: 16, markup: 0 });
+    expect(quote.laborRates.roles.map(role => role.wage)).toEqual([DEFAULT_SETTINGS.targetHourly]);
+    expect(quote.overrides?.markup).toBeNull();
+    expect(quote.jobCosts).toMatchObject({ burdenPercent: 0, overheadRate: 0, tripCharge: 40 });
+    expect(quote.actuals).toBeUndefined();
+    expect(quote).toMatchObject({ status: 'sent', statusHistory: [], expiresOn: '2026-02-15' });
+    expect(quote.followUpOn).toBeUndefined();
+
+    const sent = calculateSavedQuoteTotals(QUOTE);
+    const received = calculateSavedQuoteTotals(quote);
+    expect(received.subtotal).toBe(sent.subtotal);
+    expect(received.total).toBe(sent.total);
+    // Costs are the sell prices now, so only the trip charge, which costs nothing, is left as profit
+    expect(received.profit).toBe(40);
+  });
+
+  it('explains a damaged link', async () => {
+    const { link } = await roundTrip('customer');
+    expect(await readShareLink(link.slice(BASE.length, -12))).toEqual({
+      ok: false,
+      errors: ['The link is incomplete or damaged. Ask for it to be sent again.'],
+    });
+  });
+});
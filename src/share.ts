@@ -0,0 +1,131 @@
+import type { BusinessProfile, DocumentView, LineSnapshot, MoneySettings, SavedQuote, SavedQuoteItem } from './types';
+import { NO_OVERRIDES, SCHEMA_VERSION } from './types';
+import { parseSettings } from './schema';
+import { getBillRate, withMarkup } from './utils';
+
+const SHARE_PREFIX = '#share=';
+
+/** A quote as it travels in a share link, with what is needed to show it. */
+export interface SharedQuote {
+  quote: SavedQuote;
+  /** The sender's business, for the document header. */
+  business: BusinessProfile;
+  /** The sender's currency and locale; amounts are shown as they were quoted. */
+  money: MoneySettings;
+  view: DocumentView;
+}
+
+export type ShareLinkResult =
+  | { ok: true; shared: SharedQuote }
+  | { ok: false; errors: string[] };
+
+// Cost becomes the sell price and markup zero, so the customer totals come out the
+// same while nothing in the link reveals what the work costs us
+const sellPriceOnly = (snapshot: LineSnapshot, markupOverride: number | null): LineSnapshot => {
+  const priced = markupOverride === null ? snapshot : withMarkup(snapshot, markupOverride);
+  return {
+    ...priced,
+    markupSource: undefined,
+    unitCost: priced.parts ? 0 : priced.unitCost * (1 + priced.markup / 100),
+    markup: 0,
+    ...(priced.parts && {
+      parts: priced.parts.map(part => ({ ...part, snapshot: sellPriceOnly(part.snapshot, null) })),
+    }),
+  };
+};
+
+const withoutCosts = (quote: SavedQuote): SavedQuote => {
+  const overrides = quote.overrides ?? NO_OVERRIDES;
+  const sellItems = (items: SavedQuoteItem[]) => items.map(qItem => ({ ...qItem, snapshot: sellPriceOnly(qItem.snapshot, overrides.markup) }));
+  const { targetHourly, roles } = quote.laborRates;
+  return {
+    ...quote,
+    items: sellItems(quote.items),
+    ...(quote.options && { options: quote.options.map(option => ({ ...option, items: sellItems(option.items) })) }),
+    laborRates: {
+      targetHourly,
+      roles: roles.map(role => ({ ...role, wage: overrides.hourlyRate ?? getBillRate(role, targetHourly) })),
+    },
+    overrides: { ...overrides, markup: null },
+    // Burden and overhead are our costs; the trip charge and minimum are on the customer's copy anyway
+    ...(quote.jobCosts && { jobCosts: { ...quote.jobCosts, burdenPercent: 0, overheadRate: 0 } }),
+    actuals: undefined,
+    // How the quote is being chased is ours too; to the customer it is simply sent
+    status: 'sent',
+    statusHistory: [],
+    followUpOn: undefined,
+  };
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const compress = async (text: string) => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = (bytes: Uint8Array) => {
+  const stream = new Blob([bytes.buffer as ArrayBuffer]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+export const isShareLink = (hash: string) => hash.startsWith(SHARE_PREFIX);
+
+/**
+ * Packs a quote into a link that needs no server: everything is in the URL
+ * fragment, which browsers never send. The quote travels as a one-quote settings
+ * payload, so links from older versions go through the usual migrations.
+ */
+export const createShareLink = async (shared: SharedQuote, base: string) => {
+  const sent = shared.view === 'internal' ? shared.quote : withoutCosts(shared.quote);
+  // Record ids mean nothing to the receiver
+  const quote = { ...sent, customerId: undefined, pricingProfileId: undefined };
+  const payload = {
+    view: shared.view,
+    settings: {
+      schemaVersion: SCHEMA_VERSION,
+      // A logo would make the link far too long
+      business: { ...shared.business, logo: '' },
+      money: shared.money,
+      savedQuotes: [quote],
+    },
+  };
+  return `${base}${SHARE_PREFIX}${toBase64Url(await compress(JSON.stringify(payload)))}`;
+};
+
+export const readShareLink = async (hash: string): Promise<ShareLinkResult> => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(await decompress(fromBase64Url(hash.slice(SHARE_PREFIX.length))));
+  } catch {
+    return { ok: false, errors: ['The link is incomplete or damaged. Ask for it to be sent again.'] };
+  }
+  if (!payload || typeof payload !== 'object' || !('settings' in payload)) {
+    return { ok: false, errors: ['The link does not contain a quote.'] };
+  }
+
+  const result = parseSettings(payload.settings);
+  if (!result.ok) return result;
+  const [quote] = result.settings.savedQuotes;
+  if (!quote) return { ok: false, errors: ['The link does not contain a quote.'] };
+  return {
+    ok: true,
+    shared: {
+      quote,
+      business: result.settings.business,
+      money: result.settings.money,
+      view: 'view' in payload && payload.view === 'internal' ? 'internal' : 'customer',
+    },
+  };
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { solveForTarget } from './solver';
+import { DEFAULT_ROUNDING, DEFAULT_SETTINGS, NO_JOB_COSTS, NO_MARKUP_RULES, NO_OVERRIDES } from './types';
+import { libraryItem } from './test-fixtures';
+import type { QuoteInput } from './utils';
+
+const PIPE = libraryItem({ id: 'pipe', name: 'Copper Pipe', unit: 'ft', cost: 10 });
+
+// 10 ft at $10 cost and 20% markup, plus 3 hours at $25 wage and $100 billed
+const quoteInput = (overrides: Partial<QuoteInput> = {}): QuoteInput => ({
+  quoteItems: [{ itemId: 'pipe', quantity: 10 }],
+  persistentItems: [PIPE],
+  markupPolicy: { globalMarkup: 20, rules: NO_MARKUP_RULES },
+  laborLines: [{ roleId: 'role-1', hours: 3 }],
+  laborRates: { targetHourly: 100, roles: DEFAULT_SETTINGS.laborRoles },
+  quoteDiscount: null,
+  tax: DEFAULT_SETTINGS.tax,
+  overrides: NO_OVERRIDES,
+  rounding: DEFAULT_ROUNDING,
+  jobCosts: NO_JOB_COSTS,
+  ...overrides,
+});
+
+const solve = (...args: Parameters<typeof solveForTarget>) => {
+  const result = solveForTarget(...args);
+  if (!result.ok) throw new Error(result.error);
+  return result;
+};
+
+describe('solveForTarget', () => {
+  it('solves the adjustment for a target total exactly', () => {
+    const result = solve(quoteInput(), 'price', 500, 'adjustment');
+    expect(result.value).toBe(80);
+    expect(result.totals.subtotal).toBe(500);
+  });
+
+  it('solves the markup for a target margin', () => {
+    const result = solve(quoteInput(), 'margin', 50, 'markup');
+    expect(result.totals.margin).toBeGreaterThanOrEqual(50);
+    expect(result.totals.margin).toBeLessThan(50.01);
+  });
+
+  it('solves the hourly rate for a target total', () => {
+    const result = solve(quoteInput(), 'price', 600, 'hourlyRate');
+    expect(result.value).toBe(160);
+    expect(result.totals.subtotal).toBe(600);
+  });
+
+  it('keeps the other overrides on the quote', () => {
+    const input = quoteInput({ overrides: { ...NO_OVERRIDES, hourlyRate: 90 } });
+    const result = solve(input, 'price', 500, 'markup');
+    expect(result.overrides.hourlyRate).toBe(90);
+    expect(result.totals.subtotal).toBeGreaterThanOrEqual(500);
+  });
+
+  it('never lands below the target once prices are rounded', () => {
+    const input = quoteInput({ quoteItems: [], rounding: { ...DEFAULT_ROUNDING, priceScope: 'total', priceRule: 'five' } });
+    const hourly = solve(input, 'price', 1234.56, 'hourlyRate');
+    expect(hourly.totals.subtotal).toBe(1235);
+    const adjustment = solve(input, 'price', 1234.56, 'adjustment');
+    expect(adjustment.totals.subtotal).toBe(1235);
+  });
+
+  it('rounds a lever up to the cent so the margin still reaches the target', () => {
+    // Materials need a 48.7179...% markup for a 61% margin
+    const result = solve(quoteInput(), 'margin', 61, 'markup');
+    expect(result.value).toBe(48.72);
+    expect(result.totals.margin).toBeGreaterThanOrEqual(61);
+  });
+
+  it('takes overhead charged on the price off the margin', () => {
+    const input = quoteInput({ jobCosts: { ...NO_JOB_COSTS, overheadBasis: 'percent', overheadRate: 10 } });
+    const result = solve(input, 'margin', 30, 'adjustment');
+    expect(result.totals.margin).toBeGreaterThanOrEqual(30);
+    expect(result.totals.margin).toBeLessThan(30.01);
+  });
+
+  it('explains targets it cannot reach', () => {
+    expect(solveForTarget(quoteInput(), 'margin', 100, 'markup')).toEqual({ ok: false, error: 'Target margin must be below 100%.' });
+    expect(solveForTarget(quoteInput(), 'price', 0, 'markup')).toEqual({ ok: false, error: 'Target total must be greater than zero.' });
+    expect(solveForTarget(quoteInput({ quoteItems: [] }), 'price', 500, 'markup'))
+      .toEqual({ ok: false, error: 'Add materials to solve for markup.' });
+    expect(solveForTarget(quoteInput({ laborLines: [] }), 'price', 500, 'hourlyRate'))
+      .toEqual({ ok: false, error: 'Add labor hours to solve for hourly rate.' });
+    expect(solveForTarget(quoteInput(), 'price', 50, 'hourlyRate'))
+      .toEqual({ ok: false, error: 'Target is out of reach by changing the hourly rate alone.' });
+  });
+
+  it('refuses a target below the minimum job price', () => {
+    const input = quoteInput({ jobCosts: { ...NO_JOB_COSTS, minimumPrice: 1000 } });
+    expect(solveForTarget(input, 'price', 500, 'adjustment')).toEqual({ ok: false, error: 'Target is below the minimum job price.' });
+  });
+});
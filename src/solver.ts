@@ -0,0 +1,108 @@
+import type { QuoteOverrides } from './types';
+import { roundMoney } from './money';
+import { calculateQuoteTotals } from './utils';
+import type { QuoteInput, QuoteTotals } from './utils';
+
+export type SolverTarget = 'margin' | 'price';
+export type SolverLever = 'markup' | 'hourlyRate' | 'adjustment';
+
+export type SolverResult =
+  | { ok: true; lever: SolverLever; value: number; overrides: QuoteOverrides; totals: QuoteTotals }
+  | { ok: false; error: string };
+
+const ITERATIONS = 100;
+// Cents a rounded lever may still be raised by to reach a margin target
+const MAX_NUDGES = 100;
+
+const subtotalWith = (input: QuoteInput, overrides: QuoteOverrides) => {
+  return calculateQuoteTotals({ ...input, overrides }).subtotal;
+};
+
+/** Rounds up to the next whole cent, ignoring binary noise just past one. */
+const ceilCents = (value: number) => Math.ceil(value * 100 - 1e-6) / 100;
+
+/**
+ * Finds the lever value whose pre-tax subtotal matches the goal. Price is
+ * non-decreasing in every lever, so a bisection between a floor and a ceiling
+ * that is doubled until it overshoots is enough.
+ */
+const bisect = (priceAt: (value: number) => number, goal: number, low: number): number | null => {
+  if (priceAt(low) > goal) return null;
+  let high = Math.max(low + 1, 100);
+  while (priceAt(high) < goal) {
+    high *= 2;
+    if (high > 1e9) return null;
+  }
+  let lo = low;
+  let hi = high;
+  for (let i = 0; i < ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (priceAt(mid) < goal) lo = mid;
+    else hi = mid;
+  }
+  return hi;
+};
+
+/**
+ * Back-calculates the markup, hourly rate or quote adjustment needed to reach a
+ * target margin (%) or target pre-tax total. The other overrides on the quote are kept.
+ */
+export const solveForTarget = (
+  input: QuoteInput,
+  target: SolverTarget,
+  targetValue: number,
+  lever: SolverLever
+): SolverResult => {
+  const current = calculateQuoteTotals(input);
+
+  const { jobCosts } = input;
+  let goal: number;
+  if (target === 'margin') {
+    if (targetValue >= 100) return { ok: false, error: 'Target margin must be below 100%.' };
+    // Overhead charged on the price grows with it, so it comes off the margin instead
+    const priceOverhead = jobCosts.overheadBasis === 'percent' ? jobCosts.overheadRate : 0;
+    const share = 1 - (targetValue + priceOverhead) / 100;
+    if (share <= 0) return { ok: false, error: 'Target margin plus overhead must be below 100%.' };
+    goal = (current.cost - (priceOverhead > 0 ? current.overhead : 0)) / share;
+  } else {
+    if (targetValue <= 0) return { ok: false, error: 'Target total must be greater than zero.' };
+    goal = targetValue;
+  }
+  if (current.subtotal > 0 && goal < jobCosts.minimumPrice) {
+    return { ok: false, error: 'Target is below the minimum job price.' };
+  }
+
+  const priceAt = (value: number) => subtotalWith(input, { ...input.overrides, [lever]: value });
+  let value: number | null;
+  if (lever === 'adjustment') {
+    // The subtotal moves dollar-for-dollar with the adjustment, until price rounding steps it
+    value = goal - subtotalWith(input, { ...input.overrides, adjustment: 0 });
+  } else if (lever === 'markup') {
+    if (current.lines.length === 0) return { ok: false, error: 'Add materials to solve for markup.' };
+    value = bisect(priceAt, goal, -100);
+    if (value === null) return { ok: false, error: 'Target is out of reach by changing material markup alone.' };
+  } else {
+    if (current.labor.hours <= 0) return { ok: false, error: 'Add labor hours to solve for hourly rate.' };
+    value = bisect(priceAt, goal, 0);
+    if (value === null) return { ok: false, error: 'Target is out of reach by changing the hourly rate alone.' };
+  }
+
+  // The goal is a floor, so the lever rounds up to the cent and must still reach it once rounded
+  let rounded = ceilCents(value);
+  if (priceAt(rounded) < goal) {
+    const reached = bisect(priceAt, goal, rounded);
+    if (reached === null) return { ok: false, error: 'Target is out of reach with whole-cent prices.' };
+    rounded = ceilCents(reached);
+  }
+  // Cost rounded to the cent, like overhead on the price, can leave the margin a hair short
+  const totalsAt = (value: number) => calculateQuoteTotals({ ...input, overrides: { ...input.overrides, [lever]: value } });
+  let totals = totalsAt(rounded);
+  for (let cents = 0; target === 'margin' && totals.margin < targetValue && cents < MAX_NUDGES; cents++) {
+    rounded = roundMoney(rounded + 0.01);
+    totals = totalsAt(rounded);
+  }
+  if (target === 'margin' && totals.margin < targetValue) {
+    return { ok: false, error: 'Target is out of reach with whole-cent prices.' };
+  }
+  return { ok: true, lever, value: rounded, overrides: { ...input.overrides, [lever]: rounded }, totals };
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { applySettingsChange, diffSettings, isEmptyChange, parseWorkingQuote } from './storage';
+import { DEFAULT_SETTINGS, EMPTY_CUSTOMER, NO_OVERRIDES } from './types';
+import type { AppSettings } from './types';
+import { libraryItem, savedQuote } from './test-fixtures';
+
+const PIPE = libraryItem({ id: 'pipe', name: 'Copper Pipe', cost: 10 });
+const VALVE = libraryItem({ id: 'valve', name: 'Ball Valve', cost: 4 });
+const TEE = libraryItem({ id: 'tee', name: 'Tee', cost: 2 });
+
+const SETTINGS: AppSettings = {
+  ...DEFAULT_SETTINGS,
+  persistentItems: [PIPE, VALVE],
+  savedQuotes: [savedQuote({ id: 'q1' })],
+};
+
+describe('diffSettings', () => {
+  it('finds nothing between the same settings', () => {
+    expect(isEmptyChange(diffSettings(SETTINGS, SETTINGS))).toBe(true);
+    expect(isEmptyChange(diffSettings(SETTINGS, { ...SETTINGS }))).toBe(true);
+  });
+
+  it('lists changed fields by value', () => {
+    const change = diffSettings(SETTINGS, { ...SETTINGS, globalMarkup: 40 });
+    expect(change.fields).toEqual({ globalMarkup: 40 });
+    expect(isEmptyChange(change)).toBe(false);
+  });
+
+  it('lists only the records that changed, and the order when it changed', () => {
+    const edited = { ...PIPE, cost: 11 };
+    const change = diffSettings(SETTINGS, { ...SETTINGS, persistentItems: [edited, VALVE] });
+    expect(change.fields).toEqual({});
+    expect(change.records.persistentItems).toEqual({ put: [edited], deleted: [] });
+
+    const added = diffSettings(SETTINGS, { ...SETTINGS, persistentItems: [TEE, PIPE] });
+    expect(added.fields).toEqual({ persistentItems: ['tee', 'pipe'] });
+    expect(added.records.persistentItems).toEqual({ put: [TEE], deleted: ['valve'] });
+    expect(added.records.savedQuotes).toEqual({ put: [], deleted: [] });
+  });
+});
+
+describe('applySettingsChange', () => {
+  it('turns the old settings into the new ones', () => {
+    const next: AppSettings = {
+      ...SETTINGS,
+      globalMarkup: 40,
+      persistentItems: [TEE, { ...PIPE, cost: 11 }],
+      savedQuotes: [],
+    };
+    expect(applySettingsChange(SETTINGS, diffSettings(SETTINGS, next))).toEqual(next);
+  });
+
+  it('keeps records it has not seen in the new order, rather than dropping them', () => {
+    // Another tab added the tee while this one added the elbow
+    const elbow = libraryItem({ id: 'elbow', name: 'Elbow' });
+    const ours = { ...SETTINGS, persistentItems: [PIPE, VALVE, elbow] };
+    const change = diffSettings(SETTINGS, { ...SETTINGS, persistentItems: [PIPE, VALVE, TEE] });
+    expect(applySettingsChange(ours, change).persistentItems.map(item => item.id)).toEqual(['pipe', 'valve', 'tee', 'elbow']);
+  });
+
+  it('leaves unchanged records as the same objects', () => {
+    const change = diffSettings(SETTINGS, { ...SETTINGS, persistentItems: [{ ...PIPE, cost: 11 }, VALVE] });
+    expect(applySettingsChange(SETTINGS, change).persistentItems[1]).toBe(VALVE);
+  });
+});
+
+describe('parseWorkingQuote', () => {
+  it('starts an empty quote from nothing', () => {
+    expect(parseWorkingQuote(null, SETTINGS)).toEqual({
+      quoteName: '',
+      quoteItems: [],
+      laborLines: [],
+      lockedLaborRates: null,
+      lockedTax: null,
+      lockedRounding: null,
+      lockedJobCosts: null,
+      quoteDiscount: null,
+      overrides: NO_OVERRIDES,
+      customer: EMPTY_CUSTOMER,
+      customerId: null,
+      pricingProfileId: null,
+      options: [],
+    });
+  });
+
+  it('splits hours from before labor roles across the roles', () => {
+    const settings = {
+      ...SETTINGS,
+      laborRoles: [{ id: 'a', name: 'A', wage: 20, billRate: null }, { id: 'b', name: 'B', wage: 30, billRate: null }],
+    };
+    expect(parseWorkingQuote({ legacyHours: 6 }, settings).laborLines).toEqual([{ roleId: 'a', hours: 3 }, { roleId: 'b', hours: 3 }]);
+  });
+
+  it('leaves out malformed lines and options, and says why', () => {
+    const errors: string[] = [];
+    const line = { itemId: 'pipe', quantity: 2 };
+    const parsed = parseWorkingQuote({
+      quoteItems: [line, { itemId: 'valve', quantity: '3' }, null],
+      laborLines: [{ roleId: 'role-1', hours: 4 }, { roleId: 'role-1' }],
+      options: [{ id: 'good', name: 'Good', quoteItems: [{ itemId: 'pipe' }], laborLines: [] }],
+    }, SETTINGS, errors);
+    expect(parsed.quoteItems).toEqual([line]);
+    expect(parsed.laborLines).toEqual([{ roleId: 'role-1', hours: 4 }]);
+    expect(parsed.options).toEqual([]);
+    expect(errors).toEqual([
+      'quoteItems[1].quantity: expected a number, got a string',
+      'quoteItems[2]: expected an object, got null',
+      'laborLines[1].hours: expected a number, got nothing',
+      'options[0].quoteItems[0].quantity: expected a number, got nothing',
+    ]);
+  });
+
+  it('drops rate locks saved before labor roles existed', () => {
+    expect(parseWorkingQuote({ lockedLaborRates: { targetHourly: 80, wages: [25] } }, SETTINGS).lockedLaborRates).toBeNull();
+  });
+});
@@ -0,0 +1,513 @@
+import type {
+  AppSettings,
+  CustomerDetails,
+  Discount,
+  JobCosts,
+  LaborLine,
+  LaborRates,
+  LaborRole,
+  QuoteItem,
+  QuoteOption,
+  QuoteOverrides,
+  RoundingSettings,
+  TaxSettings,
+} from './types';
+import { DEFAULT_SETTINGS, EMPTY_CUSTOMER, NO_OVERRIDES, SCHEMA_VERSION } from './types';
+import { parseSettings, validateLaborLine, validateQuoteItem, validateQuoteOption } from './schema';
+
+/** The quote being edited on the Quote tab. Each tab edits its own; it is not synced. */
+export interface WorkingQuote {
+  quoteName: string;
+  quoteItems: QuoteItem[];
+  laborLines: LaborLine[];
+  /** Rates, tax, rounding and job costs a quote loaded from history was saved with; null means use the current settings. */
+  lockedLaborRates: LaborRates | null;
+  lockedTax: TaxSettings | null;
+  lockedRounding: RoundingSettings | null;
+  lockedJobCosts: JobCosts | null;
+  quoteDiscount: Discount | null;
+  overrides: QuoteOverrides;
+  customer: CustomerDetails;
+  /** Customer record the working quote is attached to. */
+  customerId: string | null;
+  /** Null prices the quote with the standard rates. */
+  pricingProfileId: string | null;
+  /** Alternatives the customer chooses between; quoteItems and laborLines are then shared by all of them. */
+  options: QuoteOption[];
+}
+
+export interface SettingsReport {
+  title: string;
+  errors: string[];
+}
+
+export interface InitialState {
+  settings: AppSettings;
+  workingQuote: WorkingQuote;
+  /** Set when stored settings could not be used and defaults were loaded instead. */
+  report: SettingsReport | null;
+}
+
+// --- Settings as records ---
+
+/** Collections stored one record per entry, so editing one quote doesn't rewrite the rest. */
+const COLLECTIONS = ['persistentItems', 'savedQuotes', 'customers'] as const;
+type Collection = typeof COLLECTIONS[number];
+
+/** Every other top-level field is stored as is; a collection is stored as its ids in order. */
+type StoredFields = Omit<AppSettings, Collection> & Record<Collection, string[]>;
+
+interface RecordChanges<T> {
+  put: T[];
+  deleted: string[];
+}
+
+/** What changed between two versions of the settings, in the shape it is stored. */
+export interface SettingsChange {
+  fields: Partial<StoredFields>;
+  records: { [K in Collection]: RecordChanges<AppSettings[K][number]> };
+}
+
+const isCollection = (key: string): key is Collection => COLLECTIONS.includes(key as Collection);
+
+const idsOf = (records: { id: string }[]) => records.map(record => record.id);
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id, idx) => id === b[idx]);
+
+// State updates never mutate, so a record that is still the same object hasn't changed
+const diffRecords = <T extends { id: string }>(prev: T[], next: T[]): RecordChanges<T> => {
+  const before = new Map(prev.map(record => [record.id, record]));
+  const kept = new Set(idsOf(next));
+  return {
+    put: next.filter(record => before.get(record.id) !== record),
+    deleted: idsOf(prev).filter(id => !kept.has(id)),
+  };
+};
+
+export const diffSettings = (prev: AppSettings, next: AppSettings): SettingsChange => {
+  const fields: Record<string, unknown> = {};
+  (Object.keys(next) as (keyof AppSettings)[]).forEach(key => {
+    if (isCollection(key)) {
+      const ids = idsOf(next[key]);
+      if (!sameIds(idsOf(prev[key]), ids)) fields[key] = ids;
+    } else if (prev[key] !== next[key]) {
+      fields[key] = next[key];
+    }
+  });
+  return {
+    fields: fields as Partial<StoredFields>,
+    records: {
+      persistentItems: diffRecords(prev.persistentItems, next.persistentItems),
+      savedQuotes: diffRecords(prev.savedQuotes, next.savedQuotes),
+      customers: diffRecords(prev.customers, next.customers),
+    },
+  };
+};
+
+export const isEmptyChange = (change: SettingsChange) => {
+  return Object.keys(change.fields).length === 0
+    && COLLECTIONS.every(key => change.records[key].put.length === 0 && change.records[key].deleted.length === 0);
+};
+
+/**
+ * Records in the given order. Records the order doesn't list yet, e.g. one another
+ * tab added at the same moment, are kept at the end rather than dropped.
+ */
+const orderRecords = <T>(byId: Map<string, T>, order: string[]) => {
+  const listed = new Set(order);
+  const ordered = order.flatMap(id => {
+    const record = byId.get(id);
+    return record ? [record] : [];
+  });
+  return [...ordered, ...[...byId].filter(([id]) => !listed.has(id)).map(([, record]) => record)];
+};
+
+const applyRecords = <T extends { id: string }>(records: T[], changes: RecordChanges<T>, order = idsOf(records)) => {
+  const byId = new Map(records.map(record => [record.id, record]));
+  changes.put.forEach(record => byId.set(record.id, record));
+  changes.deleted.forEach(id => byId.delete(id));
+  return orderRecords(byId, order);
+};
+
+export const applySettingsChange = (settings: AppSettings, change: SettingsChange): AppSettings => {
+  const { persistentItems, savedQuotes, customers, ...fields } = change.fields;
+  return {
+    ...settings,
+    ...fields,
+    persistentItems: applyRecords(settings.persistentItems, change.records.persistentItems, persistentItems),
+    savedQuotes: applyRecords(settings.savedQuotes, change.records.savedQuotes, savedQuotes),
+    customers: applyRecords(settings.customers, change.records.customers, customers),
+  };
+};
+
+/** Everything needed to write the settings from scratch. */
+const changeFromEmpty = (settings: AppSettings): SettingsChange => {
+  const fields: Record<string, unknown> = { ...settings };
+  COLLECTIONS.forEach(collection => {
+    fields[collection] = idsOf(settings[collection]);
+  });
+  return {
+    fields: fields as StoredFields,
+    records: {
+      persistentItems: { put: settings.persistentItems, deleted: [] },
+      savedQuotes: { put: settings.savedQuotes, deleted: [] },
+      customers: { put: settings.customers, deleted: [] },
+    },
+  };
+};
+
+// --- Backends ---
+
+interface StoredData {
+  /** Raw settings as stored, before migration and validation; null when nothing is stored. */
+  settings: unknown;
+  /** Set when the stored settings could not even be read. */
+  readError?: string;
+  workingQuote: unknown;
+}
+
+export interface StorageBackend {
+  name: 'indexedDB' | 'localStorage';
+  load: () => Promise<StoredData>;
+  /** Writes only what changed, then tells other open tabs about it. */
+  saveSettings: (change: SettingsChange) => Promise<void>;
+  /** Overwrites all stored settings; used after loading defaults or migrated data. */
+  replaceSettings: (settings: AppSettings) => Promise<void>;
+  saveWorkingQuote: (quote: WorkingQuote) => Promise<void>;
+  /** Keeps unreadable settings somewhere safe before defaults are written over them. */
+  keepBackup: (raw: unknown) => Promise<void>;
+  /** Calls the listener with every change another tab saves. Returns an unsubscribe function. */
+  subscribe: (listener: (change: SettingsChange) => void) => () => void;
+}
+
+const SYNC_CHANNEL = 'quote_builder_sync';
+let channel: BroadcastChannel | null = null;
+
+// BroadcastChannel never delivers a tab's own messages back to it
+const getChannel = () => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') channel = new BroadcastChannel(SYNC_CHANNEL);
+  return channel;
+};
+
+const publishChange = (change: SettingsChange) => getChannel()?.postMessage(change);
+
+const subscribeToChanges = (listener: (change: SettingsChange) => void) => {
+  const target = getChannel();
+  if (!target) return () => {};
+  const handleMessage = (event: MessageEvent<SettingsChange>) => listener(event.data);
+  target.addEventListener('message', handleMessage);
+  return () => target.removeEventListener('message', handleMessage);
+};
+
+// localStorage: the original layout, kept as a fallback where IndexedDB is unavailable
+
+const SETTINGS_KEY = 'quote_builder_settings';
+const BACKUP_KEY = 'quote_builder_settings_backup';
+const LEGACY_PREFIX = 'quote_builder_';
+// Working quote hours from before labor roles existed
+const LEGACY_HOURS_KEY = 'quote_builder_hours';
+
+const WORKING_QUOTE_KEYS: Record<keyof WorkingQuote, string> = {
+  quoteName: 'quote_builder_name',
+  quoteItems: 'quote_builder_items',
+  laborLines: 'quote_builder_labor',
+  lockedLaborRates: 'quote_builder_labor_rates',
+  lockedTax: 'quote_builder_tax',
+  lockedRounding: 'quote_builder_rounding',
+  lockedJobCosts: 'quote_builder_job_costs',
+  quoteDiscount: 'quote_builder_discount',
+  overrides: 'quote_builder_overrides',
+  customer: 'quote_builder_customer',
+  customerId: 'quote_builder_customer_id',
+  pricingProfileId: 'quote_builder_pricing_profile',
+  options: 'quote_builder_options',
+};
+
+// Stored as plain text rather than JSON
+const TEXT_FIELDS: (keyof WorkingQuote)[] = ['quoteName', 'customerId', 'pricingProfileId'];
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const readLocalWorkingQuote = () => {
+  const raw: Record<string, unknown> = {};
+  (Object.keys(WORKING_QUOTE_KEYS) as (keyof WorkingQuote)[]).forEach(field => {
+    const saved = localStorage.getItem(WORKING_QUOTE_KEYS[field]);
+    if (saved !== null) raw[field] = TEXT_FIELDS.includes(field) ? saved : parseJson(saved);
+  });
+  const legacyHours = Number(localStorage.getItem(LEGACY_HOURS_KEY));
+  if (legacyHours) raw.legacyHours = legacyHours;
+  return raw;
+};
+
+const legacyKeys = () => Object.keys(localStorage).filter(key => key.startsWith(LEGACY_PREFIX) && key !== BACKUP_KEY);
+
+export const createLocalStorageBackend = (): StorageBackend => ({
+  name: 'localStorage',
+  load: async () => {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    const settings = saved === null ? null : parseJson(saved);
+    return {
+      settings: settings === undefined ? saved : settings,
+      ...(settings === undefined && { readError: 'Stored settings are not valid JSON' }),
+      workingQuote: readLocalWorkingQuote(),
+    };
+  },
+  // Re-reads before writing so changes other tabs saved in the meantime are kept
+  saveSettings: async change => {
+    const saved = parseJson(localStorage.getItem(SETTINGS_KEY) ?? '') as AppSettings | undefined;
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(applySettingsChange(saved ?? DEFAULT_SETTINGS, change)));
+    publishChange(change);
+  },
+  replaceSettings: async settings => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  },
+  saveWorkingQuote: async quote => {
+    (Object.keys(WORKING_QUOTE_KEYS) as (keyof WorkingQuote)[]).forEach(field => {
+      const value = quote[field];
+      localStorage.setItem(WORKING_QUOTE_KEYS[field], TEXT_FIELDS.includes(field) ? String(value ?? '') : JSON.stringify(value));
+    });
+  },
+  keepBackup: async raw => {
+    localStorage.setItem(BACKUP_KEY, typeof raw === 'string' ? raw : JSON.stringify(raw));
+  },
+  subscribe: subscribeToChanges,
+});
+
+// IndexedDB: one store per collection plus a key-value store for the other fields
+
+const DB_NAME = 'quote_builder';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const WORKING_QUOTE_STORE = 'workingQuote';
+const BACKUP_STORE = 'backups';
+const WORKING_QUOTE_KEY = 'current';
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore(META_STORE);
+    COLLECTIONS.forEach(collection => db.createObjectStore(collection, { keyPath: 'id' }));
+    db.createObjectStore(WORKING_QUOTE_STORE);
+    db.createObjectStore(BACKUP_STORE, { autoIncrement: true });
+  };
+  request.onsuccess = () => {
+    const db = request.result;
+    // Let a newer version of the app open in another tab upgrade the database
+    db.onversionchange = () => db.close();
+    resolve(db);
+  };
+  request.onerror = () => reject(request.error);
+});
+
+const writeChange = (tx: IDBTransaction, change: SettingsChange) => {
+  const meta = tx.objectStore(META_STORE);
+  Object.entries(change.fields).forEach(([key, value]) => meta.put(value, key));
+  COLLECTIONS.forEach(collection => {
+    const store = tx.objectStore(collection);
+    change.records[collection].put.forEach(record => store.put(record));
+    change.records[collection].deleted.forEach(id => store.delete(id));
+  });
+};
+
+const createIndexedDbBackend = (db: IDBDatabase): StorageBackend => ({
+  name: 'indexedDB',
+  load: async () => {
+    const tx = db.transaction([META_STORE, ...COLLECTIONS, WORKING_QUOTE_STORE], 'readonly');
+    const meta = tx.objectStore(META_STORE);
+    const [keys, values, workingQuote, ...records] = await Promise.all([
+      requestResult(meta.getAllKeys()),
+      requestResult(meta.getAll()),
+      requestResult(tx.objectStore(WORKING_QUOTE_STORE).get(WORKING_QUOTE_KEY)),
+      ...COLLECTIONS.map(collection => requestResult(tx.objectStore(collection).getAll() as IDBRequest<{ id: string }[]>)),
+    ]);
+    if (keys.length === 0) return { settings: null, workingQuote };
+
+    const settings: Record<string, unknown> = {};
+    keys.forEach((key, idx) => {
+      settings[String(key)] = values[idx];
+    });
+    COLLECTIONS.forEach((collection, idx) => {
+      const order = Array.isArray(settings[collection]) ? settings[collection] as string[] : [];
+      settings[collection] = orderRecords(new Map(records[idx].map(record => [record.id, record])), order);
+    });
+    return { settings, workingQuote };
+  },
+  saveSettings: async change => {
+    const tx = db.transaction([META_STORE, ...COLLECTIONS], 'readwrite');
+    writeChange(tx, change);
+    await transactionDone(tx);
+    publishChange(change);
+  },
+  replaceSettings: async settings => {
+    const tx = db.transaction([META_STORE, ...COLLECTIONS], 'readwrite');
+    [META_STORE, ...COLLECTIONS].forEach(store => tx.objectStore(store).clear());
+    writeChange(tx, changeFromEmpty(settings));
+    await transactionDone(tx);
+  },
+  saveWorkingQuote: async quote => {
+    const tx = db.transaction(WORKING_QUOTE_STORE, 'readwrite');
+    tx.objectStore(WORKING_QUOTE_STORE).put(quote, WORKING_QUOTE_KEY);
+    await transactionDone(tx);
+  },
+  keepBackup: async raw => {
+    const tx = db.transaction(BACKUP_STORE, 'readwrite');
+    tx.objectStore(BACKUP_STORE).add({ savedAt: new Date().toISOString(), data: raw });
+    await transactionDone(tx);
+  },
+  subscribe: subscribeToChanges,
+});
+
+/** IndexedDB where the browser allows it (private windows may not), localStorage otherwise. */
+export const openStorage = async (): Promise<StorageBackend> => {
+  if (typeof indexedDB === 'undefined') return createLocalStorageBackend();
+  try {
+    return createIndexedDbBackend(await openDatabase());
+  } catch {
+    return createLocalStorageBackend();
+  }
+};
+
+// --- Loading ---
+
+const legacyLaborLines = (hours: unknown, roles: LaborRole[]): LaborLine[] => {
+  // Carry over a working quote from before labor roles, split evenly like it used to be costed
+  if (typeof hours !== 'number' || !hours || roles.length === 0) return [];
+  return roles.map(role => ({ roleId: role.id, hours: hours / roles.length }));
+};
+
+/** The entries that pass `validate`; the problems with the others are added to `errors`. */
+const validEntries = <T>(
+  errors: string[],
+  path: string,
+  entries: unknown[],
+  validate: (errors: string[], path: string, entry: unknown) => void
+) => entries.filter((entry, idx) => {
+  const entryErrors: string[] = [];
+  validate(entryErrors, `${path}[${idx}]`, entry);
+  errors.push(...entryErrors);
+  return entryErrors.length === 0;
+}) as T[];
+
+/**
+ * Fills in whatever a stored working quote is missing; anything unusable starts empty.
+ * Lines and options that are not valid are left out, with the reasons added to `errors`.
+ */
+export const parseWorkingQuote = (raw: unknown, settings: AppSettings, errors: string[] = []): WorkingQuote => {
+  const saved = (raw && typeof raw === 'object' ? raw : {}) as Partial<WorkingQuote> & { legacyHours?: unknown };
+  return {
+    quoteName: typeof saved.quoteName === 'string' ? saved.quoteName : '',
+    quoteItems: Array.isArray(saved.quoteItems) ? validEntries(errors, 'quoteItems', saved.quoteItems, validateQuoteItem) : [],
+    laborLines: Array.isArray(saved.laborLines)
+      ? validEntries(errors, 'laborLines', saved.laborLines, validateLaborLine)
+      : legacyLaborLines(saved.legacyHours, settings.laborRoles),
+    // Locks saved before labor roles existed can't be mapped onto labor lines
+    lockedLaborRates: saved.lockedLaborRates && Array.isArray(saved.lockedLaborRates.roles) ? saved.lockedLaborRates : null,
+    lockedTax: saved.lockedTax ?? null,
+    lockedRounding: saved.lockedRounding ?? null,
+    lockedJobCosts: saved.lockedJobCosts ?? null,
+    quoteDiscount: saved.quoteDiscount ?? null,
+    overrides: { ...NO_OVERRIDES, ...saved.overrides },
+    customer: { ...EMPTY_CUSTOMER, ...saved.customer },
+    customerId: saved.customerId || null,
+    pricingProfileId: saved.pricingProfileId || null,
+    options: Array.isArray(saved.options) ? validEntries(errors, 'options', saved.options, validateQuoteOption) : [],
+  };
+};
+
+/**
+ * Reads, migrates and validates everything stored. The first time IndexedDB is
+ * used, data from the old localStorage keys is moved into it and the keys removed.
+ */
+export const loadAppState = async (storage: StorageBackend): Promise<InitialState> => {
+  let stored = await storage.load();
+  const fromLegacy = storage.name === 'indexedDB' && stored.settings === null && legacyKeys().length > 0;
+  if (fromLegacy) stored = await createLocalStorageBackend().load();
+
+  let settings = DEFAULT_SETTINGS;
+  let report: SettingsReport | null = null;
+  let rewrite = stored.settings === null || fromLegacy;
+  if (stored.settings !== null) {
+    const result = stored.readError ? { ok: false as const, errors: [stored.readError] } : parseSettings(stored.settings);
+    if (result.ok) {
+      settings = result.settings;
+      rewrite ||= result.migratedFrom !== SCHEMA_VERSION;
+    } else {
+      // Keep the unreadable data around so it isn't lost when defaults are written back
+      await storage.keepBackup(stored.settings);
+      rewrite = true;
+      report = {
+        title: 'Saved settings could not be loaded. Defaults are in use; the original data was kept as a backup.',
+        errors: result.errors,
+      };
+    }
+  }
+
+  const quoteErrors: string[] = [];
+  const workingQuote = parseWorkingQuote(stored.workingQuote, settings, quoteErrors);
+  if (quoteErrors.length > 0) {
+    report = report
+      ? { ...report, errors: [...report.errors, ...quoteErrors] }
+      : { title: 'Parts of the working quote could not be loaded and were left out.', errors: quoteErrors };
+  }
+  if (rewrite) await storage.replaceSettings(settings);
+  if (fromLegacy) {
+    await storage.saveWorkingQuote(workingQuote);
+    legacyKeys().forEach(key => localStorage.removeItem(key));
+  }
+  return { settings, workingQuote, report };
+};
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error)) || 'Unknown error';
+
+/**
+ * Starts the app after the chosen storage failed to open, load or migrate: from
+ * the localStorage copy when that can be read, otherwise from defaults. Either
+ * way the failure is reported rather than leaving the page blank.
+ */
+export const recoverAppState = async (error: unknown): Promise<{ storage: StorageBackend; initial: InitialState }> => {
+  const errors = [describeError(error)];
+  const storage = createLocalStorageBackend();
+  try {
+    const initial = await loadAppState(storage);
+    return {
+      storage,
+      initial: {
+        ...initial,
+        report: initial.report ?? {
+          title: 'Stored data could not be opened. The copy kept in this browser\'s local storage is in use, and changes are saved there.',
+          errors,
+        },
+      },
+    };
+  } catch (fallbackError) {
+    return {
+      storage,
+      initial: {
+        settings: DEFAULT_SETTINGS,
+        workingQuote: parseWorkingQuote(null, DEFAULT_SETTINGS),
+        report: {
+          title: 'Stored data could not be opened. Defaults are in use and changes may not be saved.',
+          errors: [...errors, describeError(fallbackError)],
+        },
+      },
+    };
+  }
+};
@@ -0,0 +1,52 @@
+import type { LineSnapshot, PersistentItem, SavedQuote, SavedQuoteItem } from './types';
+import { DEFAULT_ROUNDING, DEFAULT_SETTINGS, NO_JOB_COSTS } from './types';
+
+// Builders for test data. Each fills in everything a record needs so a test
+// only spells out the fields it is about. Only the *.test.ts files import this;
+// the lint config stops app code from doing so.
+
+export const libraryItem = (fields: Partial<PersistentItem>): PersistentItem => ({
+  id: 'item',
+  name: 'Item',
+  sku: '',
+  category: '',
+  unit: 'each',
+  supplier: '',
+  notes: '',
+  cost: 0,
+  useCustomMarkup: false,
+  customMarkup: 0,
+  taxable: true,
+  parts: [],
+  labor: [],
+  costHistory: [],
+  ...fields,
+});
+
+/** A saved line priced at the given unit cost and markup. */
+export const savedLine = (itemId: string, quantity: number, snapshot: Partial<LineSnapshot>): SavedQuoteItem => ({
+  itemId,
+  quantity,
+  snapshot: { name: itemId, unit: 'each', unitCost: 0, markup: 0, taxable: true, ...snapshot },
+});
+
+/** A draft quote with no lines, priced with the default rates, no tax and no job costs. */
+export const savedQuote = (fields: Partial<SavedQuote>): SavedQuote => ({
+  id: 'quote',
+  name: 'Quote',
+  date: '2026-01-15',
+  items: [],
+  laborLines: [],
+  laborRates: { targetHourly: DEFAULT_SETTINGS.targetHourly, roles: DEFAULT_SETTINGS.laborRoles },
+  tax: { rates: [], taxLabor: false },
+  discountTotal: 0,
+  subtotal: 0,
+  taxLines: [],
+  totalTax: 0,
+  totalPrice: 0,
+  status: 'draft',
+  statusHistory: [{ status: 'draft', at: '2026-01-15T12:00:00.000Z' }],
+  rounding: DEFAULT_ROUNDING,
+  jobCosts: NO_JOB_COSTS,
+  ...fields,
+});
@@ -1,37 +1,443 @@
 export interface PersistentItem {
   id: string;
   name: string;
+  /** Supplier part number; empty when unknown. Used to match price list rows. */
+  sku: string;
+  /** Library grouping; empty means uncategorized. */
+  category: string;
+  /** Unit the cost is per, e.g. each, ft, sq ft, box. */
+  unit: string;
+  supplier: string;
+  notes: string;
   cost: number;
   useCustomMarkup: boolean;
   customMarkup: number;
+  taxable: boolean;
+  /**
+   * Library items bundled into one unit of this item. An item with parts or
+   * labor is an assembly: it is priced from them and its own cost is unused.
+   */
+  parts: AssemblyPart[];
+  /** Labor hours per unit of the assembly. */
+  labor: LaborLine[];
+  /** Every change to `cost`, oldest first. Edits made on the same day are one change. */
+  costHistory: CostChange[];
+}
+
+export interface CostChange {
+  /** Local date of the change (YYYY-MM-DD). */
+  date: string;
+  from: number;
+  to: number;
+}
+
+export interface AssemblyPart {
+  itemId: string;
+  quantity: number;
+}
+
+export const ITEM_UNITS = ['each', 'ft', 'sq ft', 'box', 'hr', 'lb', 'gal', 'roll'];
+
+/** Which rule set an item's markup, in order of precedence. */
+export type MarkupSource =
+  | { type: 'item' }
+  | { type: 'category'; category: string }
+  | { type: 'bracket'; min: number; max: number | null }
+  | { type: 'global' };
+
+/** Markup for items whose unit cost is at least `min` and below `max`; a null max has no upper limit. */
+export interface CostBracket {
+  id: string;
+  min: number;
+  max: number | null;
+  markup: number;
+}
+
+export interface CategoryMarkup {
+  id: string;
+  /** Matched against the item category, ignoring case. */
+  category: string;
+  markup: number;
+}
+
+/**
+ * Markup rules applied before the default markup. An item's own custom markup
+ * wins, then its category, then the first cost bracket its unit cost falls in.
+ */
+export interface MarkupRules {
+  categories: CategoryMarkup[];
+  brackets: CostBracket[];
+}
+
+export const NO_MARKUP_RULES: MarkupRules = { categories: [], brackets: [] };
+
+/** Everything that decides the markup of a library item. */
+export interface MarkupPolicy {
+  /** Used when no rule matches: the standard global markup or the pricing profile's. */
+  globalMarkup: number;
+  rules: MarkupRules;
+}
+
+/** Pricing of a line frozen at the moment a quote was saved. */
+export interface LineSnapshot {
+  name: string;
+  unit: string;
+  unitCost: number;
+  markup: number;
+  /** Plain items only; missing on snapshots saved before markup rules existed. */
+  markupSource?: MarkupSource;
+  taxable: boolean;
+  /** Assemblies only: each part's pricing per unit of the assembly. */
+  parts?: PartSnapshot[];
+  /** Assemblies only: labor hours per unit of the assembly. */
+  labor?: LaborLine[];
+}
+
+export interface PartSnapshot {
+  itemId: string;
+  quantity: number;
+  snapshot: LineSnapshot;
+}
+
+export interface Discount {
+  type: 'percent' | 'amount';
+  value: number;
 }
 
 export interface QuoteItem {
   itemId: string;
   quantity: number;
+  discount?: Discount;
+  /** When present the line is priced from the snapshot instead of the live library. */
+  snapshot?: LineSnapshot;
+}
+
+export interface SavedQuoteItem extends QuoteItem {
+  snapshot: LineSnapshot;
+}
+
+/** One alternative on a good/better/best quote, priced together with the lines every option shares. */
+export interface QuoteOption {
+  id: string;
+  name: string;
+  quoteItems: QuoteItem[];
+  laborLines: LaborLine[];
+}
+
+export interface SavedQuoteOption {
+  id: string;
+  name: string;
+  items: SavedQuoteItem[];
+  laborLines: LaborLine[];
+}
+
+export interface LaborRole {
+  id: string;
+  name: string;
+  /** What we pay per hour. */
+  wage: number;
+  /** What we charge per hour; null falls back to the target hourly rate. */
+  billRate: number | null;
+}
+
+/** A labor role's rates under a pricing profile. */
+export interface ProfileRoleRate {
+  roleId: string;
+  wage: number;
+  /** Null falls back to the profile's target hourly rate. */
+  billRate: number | null;
+}
+
+/**
+ * Named alternative to the standard pricing, e.g. commercial or service-plan work.
+ * Roles without an entry in roleRates keep their standard wage and bill rate.
+ */
+export interface PricingProfile {
+  id: string;
+  name: string;
+  targetHourly: number;
+  globalMarkup: number;
+  roleRates: ProfileRoleRate[];
+}
+
+export interface LaborLine {
+  roleId: string;
+  hours: number;
+}
+
+export interface LaborRates {
+  targetHourly: number;
+  roles: LaborRole[];
+}
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  /** Percentage applied to the taxable sell price, e.g. 6.25 */
+  rate: number;
+}
+
+export interface TaxSettings {
+  rates: TaxRate[];
+  taxLabor: boolean;
+}
+
+export interface TaxLine {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+/** Shop overhead is charged per labor hour or as a share of the pre-tax price. */
+export type OverheadBasis = 'hour' | 'percent';
+
+/**
+ * What running the business adds to a job beyond wages and materials. Burden
+ * and overhead are costs, so they only lower profit; the trip charge and the
+ * minimum are billed to the customer.
+ */
+export interface JobCosts {
+  /** Payroll taxes, insurance and benefits (%) on top of wages. */
+  burdenPercent: number;
+  overheadBasis: OverheadBasis;
+  /** Amount per labor hour, or % of the pre-tax price. */
+  overheadRate: number;
+  /** Flat trip / mobilization charge added to every quote with work on it. */
+  tripCharge: number;
+  /** Pre-tax price smaller quotes are bumped up to; 0 for none. */
+  minimumPrice: number;
+}
+
+export const NO_JOB_COSTS: JobCosts = {
+  burdenPercent: 0,
+  overheadBasis: 'hour',
+  overheadRate: 0,
+  tripCharge: 0,
+  minimumPrice: 0,
+};
+
+/** Pricing levers set on a single quote, usually by the target solver. */
+export interface QuoteOverrides {
+  /** Markup (%) applied to every material line instead of its own. */
+  markup: number | null;
+  /** Bill rate applied to every labor line instead of the role's. */
+  hourlyRate: number | null;
+  /** Dollar amount added to (or, when negative, taken off) the pre-tax total. */
+  adjustment: number;
+}
+
+export const NO_OVERRIDES: QuoteOverrides = {
+  markup: null,
+  hourlyRate: null,
+  adjustment: 0,
+};
+
+export interface CustomerDetails {
+  name: string;
+  address: string;
+  phone: string;
+  email: string;
+}
+
+/** A customer kept in settings so their quotes can be found together. */
+export interface Customer extends CustomerDetails {
+  id: string;
+  notes: string;
+}
+
+export const QUOTE_STATUSES = ['draft', 'sent', 'accepted', 'declined', 'expired'] as const;
+
+export type QuoteStatus = typeof QUOTE_STATUSES[number];
+
+export const STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired',
+};
+
+export interface StatusChange {
+  status: QuoteStatus;
+  /** ISO timestamp of the change. */
+  at: string;
+}
+
+/** Material that actually went into a job. */
+export interface ActualMaterial {
+  id: string;
+  /** Library item it was quoted or bought as; null for an extra bought outside the library. */
+  itemId: string | null;
+  name: string;
+  unit: string;
+  quantity: number;
+  /** What was actually paid per unit. */
+  unitCost: number;
+}
+
+/** Hours one person actually worked on a job. */
+export interface ActualLabor {
+  id: string;
+  person: string;
+  /** Role from the quote's labor rates; its wage costs the hours. */
+  roleId: string;
+  hours: number;
+}
+
+/** What a job really took, entered once the work is done. */
+export interface JobActuals {
+  materials: ActualMaterial[];
+  labor: ActualLabor[];
 }
 
 export interface SavedQuote {
   id: string;
   name: string;
   date: string;
-  items: QuoteItem[];
-  laborHours: number;
+  items: SavedQuoteItem[];
+  laborLines: LaborLine[];
+  laborRates: LaborRates;
+  tax: TaxSettings;
+  /** Discount applied to the whole quote, on top of any line discounts. */
+  discount?: Discount;
+  /** Line and quote discounts combined. */
+  discountTotal: number;
+  overrides?: QuoteOverrides;
+  /** Pre-tax amount after discounts; margin is computed on this. */
+  subtotal: number;
+  taxLines: TaxLine[];
+  totalTax: number;
+  /** Amount the customer pays, including tax. */
   totalPrice: number;
+  /** Contact details as they were when the quote was saved. */
+  customer?: CustomerDetails;
+  customerId?: string;
+  status: QuoteStatus;
+  /** Every status the quote has had, oldest first. */
+  statusHistory: StatusChange[];
+  /** Local date (YYYY-MM-DD) after which the quote is no longer valid. */
+  expiresOn?: string;
+  /** Local date (YYYY-MM-DD) to chase the customer. */
+  followUpOn?: string;
+  /** Rounding rules the totals were calculated with; missing on quotes saved before they existed. */
+  rounding?: RoundingSettings;
+  /** Burden, overhead, trip charge and minimum the totals were calculated with; missing on quotes saved before they existed. */
+  jobCosts?: JobCosts;
+  /** Pricing profile the quote was built with; missing means standard pricing. */
+  pricingProfileId?: string;
+  /**
+   * Alternatives the customer chooses between. `items` and `laborLines` are then
+   * the lines every option shares, and the totals are for the chosen option, or the first.
+   */
+  options?: SavedQuoteOption[];
+  /** Option the customer accepted. */
+  chosenOptionId?: string;
+  /** Hours and materials the job really took, for comparing against the estimate. */
+  actuals?: JobActuals;
 }
 
+/** Customer copy shows sell prices only; internal adds cost, profit and margin. */
+export type DocumentView = 'customer' | 'internal';
+
+/** Shown on the customer-facing quote document. */
+export interface BusinessProfile {
+  name: string;
+  /** Data URL of the uploaded logo, empty when none is set. */
+  logo: string;
+  address: string;
+  phone: string;
+  email: string;
+  terms: string;
+}
+
+export const SCHEMA_VERSION = 11;
+
+/** Whether amounts are rounded to the cent on every line or only on the totals. */
+export type RoundingMode = 'line' | 'total';
+export type PriceRoundingScope = 'none' | 'line' | 'total';
+/** Round up to the next whole dollar, the next $5, or the next price ending in .99. */
+export type PriceRoundingRule = 'dollar' | 'five' | 'ninety-nine';
+
+export interface RoundingSettings {
+  mode: RoundingMode;
+  priceScope: PriceRoundingScope;
+  priceRule: PriceRoundingRule;
+}
+
+export interface MoneySettings {
+  /** ISO 4217 code, e.g. USD */
+  currency: string;
+  /** BCP 47 tag used for number formatting, e.g. en-US */
+  locale: string;
+  rounding: RoundingSettings;
+}
+
+export const DEFAULT_ROUNDING: RoundingSettings = {
+  mode: 'line',
+  priceScope: 'none',
+  priceRule: 'dollar',
+};
+
 export interface AppSettings {
+  schemaVersion: number;
   targetHourly: number;
-  wages: number[];
+  laborRoles: LaborRole[];
   globalMarkup: number;
+  /** Named alternatives to the standard rates above, picked per quote. */
+  pricingProfiles: PricingProfile[];
+  /** Take precedence over the global or profile markup. */
+  markupRules: MarkupRules;
+  /** Margin (%) below which discounted quotes show a warning. */
+  marginFloor: number;
+  jobCosts: JobCosts;
+  /** Days a newly saved quote stays valid; 0 means no expiry date is set. */
+  quoteValidityDays: number;
   persistentItems: PersistentItem[];
   savedQuotes: SavedQuote[];
+  customers: Customer[];
+  business: BusinessProfile;
+  /** What a shared quote link lets the receiver see. */
+  shareView: DocumentView;
+  tax: TaxSettings;
+  money: MoneySettings;
 }
 
+export const EMPTY_CUSTOMER: CustomerDetails = {
+  name: '',
+  address: '',
+  phone: '',
+  email: '',
+};
+
 export const DEFAULT_SETTINGS: AppSettings = {
+  schemaVersion: SCHEMA_VERSION,
   targetHourly: 100,
-  wages: [25],
+  laborRoles: [{ id: 'role-1', name: 'Technician', wage: 25, billRate: null }],
   globalMarkup: 20,
+  pricingProfiles: [],
+  markupRules: NO_MARKUP_RULES,
+  marginFloor: 20,
+  jobCosts: NO_JOB_COSTS,
+  quoteValidityDays: 30,
   persistentItems: [],
   savedQuotes: [],
+  customers: [],
+  business: {
+    name: '',
+    logo: '',
+    address: '',
+    phone: '',
+    email: '',
+    terms: 'This quote is valid for 30 days. Payment is due on completion of the work.',
+  },
+  shareView: 'customer',
+  tax: {
+    rates: [],
+    taxLabor: false,
+  },
+  money: {
+    currency: 'USD',
+    locale: 'en-US',
+    rounding: DEFAULT_ROUNDING,
+  },
 };
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createUndoHistory, rebaseHistory, recordEdit, redoEdit, undoEdit } from './undo';
+import type { EditSnapshot } from './undo';
+import { diffSettings, parseWorkingQuote } from './storage';
+import { DEFAULT_SETTINGS } from './types';
+import { libraryItem } from './test-fixtures';
+
+const PIPE = libraryItem({ id: 'pipe', name: 'Copper Pipe', cost: 10 });
+
+const START: EditSnapshot = {
+  ...parseWorkingQuote(null, DEFAULT_SETTINGS),
+  persistentItems: [PIPE],
+  laborRoles: DEFAULT_SETTINGS.laborRoles,
+  savedQuotes: [],
+};
+
+describe('recordEdit', () => {
+  it('merges typing into the same field into one step', () => {
+    let history = createUndoHistory(START);
+    history = recordEdit(history, { ...history.present, quoteName: 'K' });
+    history = recordEdit(history, { ...history.present, quoteName: 'Ki' });
+    history = recordEdit(history, { ...history.present, quoteName: 'Kitchen' });
+    expect(history.past).toEqual([START]);
+    expect(undoEdit(history)?.present).toBe(START);
+  });
+
+  it('makes editing another field its own step and clears redo', () => {
+    let history = recordEdit(createUndoHistory(START), { ...START, quoteName: 'Kitchen' });
+    history = recordEdit(history, { ...history.present, customerId: 'ann' });
+    expect(history.past).toHaveLength(2);
+    const undone = undoEdit(history);
+    expect(undone?.future).toHaveLength(1);
+    expect(recordEdit(undone!, { ...undone!.present, quoteName: 'Bath' }).future).toEqual([]);
+    expect(redoEdit(undone!)?.present).toBe(history.present);
+  });
+});
+
+describe('rebaseHistory', () => {
+  it('takes in another tab\'s change without making it an undo step', () => {
+    const named = recordEdit(createUndoHistory(START), { ...START, quoteName: 'Kitchen' });
+    // Another tab adds a tee to the library
+    const tee = libraryItem({ id: 'tee', name: 'Tee', cost: 2 });
+    const settings = { ...DEFAULT_SETTINGS, persistentItems: [PIPE] };
+    const change = diffSettings(settings, { ...settings, persistentItems: [PIPE, tee] });
+    const current = { ...named.present, persistentItems: [PIPE, tee] };
+
+    const rebased = rebaseHistory(named, current, [change]);
+    expect(rebased.present).toBe(current);
+    expect(rebased.past).toHaveLength(1);
+
+    // Undoing our edit keeps the other tab's tee
+    const undone = undoEdit(rebased);
+    expect(undone?.present.quoteName).toBe('');
+    expect(undone?.present.persistentItems).toEqual([PIPE, tee]);
+    expect(redoEdit(undone!)?.present.persistentItems).toEqual([PIPE, tee]);
+  });
+});
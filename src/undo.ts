@@ -0,0 +1,113 @@
+import type { AppSettings } from './types';
+import { DEFAULT_SETTINGS } from './types';
+import { applySettingsChange } from './storage';
+import type { SettingsChange, WorkingQuote } from './storage';
+
+/** Everything undo and redo restore: the working quote, the item library, labor roles and saved quotes. */
+export type EditSnapshot = WorkingQuote & Pick<AppSettings, 'persistentItems' | 'laborRoles' | 'savedQuotes'>;
+
+export interface UndoHistory {
+  past: EditSnapshot[];
+  present: EditSnapshot;
+  future: EditSnapshot[];
+  /** What the last recorded edit touched; null when it can't be extended. */
+  lastTarget: string | null;
+}
+
+const UNDO_LIMIT = 100;
+
+export const createUndoHistory = (present: EditSnapshot): UndoHistory => ({
+  past: [],
+  present,
+  future: [],
+  lastTarget: null,
+});
+
+const changedKeys = (a: EditSnapshot, b: EditSnapshot) => {
+  return (Object.keys(b) as (keyof EditSnapshot)[]).filter(key => a[key] !== b[key]);
+};
+
+const isSameSnapshot = (a: EditSnapshot, b: EditSnapshot) => changedKeys(a, b).length === 0;
+
+/**
+ * Describes where an edit happened, e.g. "quoteName" or "persistentItems:3".
+ * Adding or removing a line, item or quote has no target, so it is always its own step.
+ */
+const editTarget = (prev: EditSnapshot, next: EditSnapshot) => {
+  const parts: string[] = [];
+  for (const key of changedKeys(prev, next)) {
+    const before = prev[key];
+    const after = next[key];
+    if (Array.isArray(before) && Array.isArray(after)) {
+      if (before.length !== after.length) return null;
+      parts.push(`${key}:${after.flatMap((entry, idx) => entry === before[idx] ? [] : [idx]).join(',')}`);
+    } else {
+      parts.push(key);
+    }
+  }
+  return parts.join('|');
+};
+
+/**
+ * Records a change to the tracked state. Consecutive edits to the same field of the
+ * same line, like typing a name, are merged into one step.
+ */
+export const recordEdit = (history: UndoHistory, next: EditSnapshot): UndoHistory => {
+  if (isSameSnapshot(history.present, next)) return history;
+  const target = editTarget(history.present, next);
+  const extend = target !== null && target === history.lastTarget && history.past.length > 0;
+  return {
+    past: extend ? history.past : [...history.past, history.present].slice(-UNDO_LIMIT),
+    present: next,
+    future: [],
+    lastTarget: target,
+  };
+};
+
+export const undoEdit = (history: UndoHistory): UndoHistory | null => {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return null;
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future],
+    lastTarget: null,
+  };
+};
+
+export const redoEdit = (history: UndoHistory): UndoHistory | null => {
+  const [next, ...future] = history.future;
+  if (!next) return null;
+  return {
+    past: [...history.past, history.present],
+    present: next,
+    future,
+    lastTarget: null,
+  };
+};
+
+/** A snapshot with a settings change from elsewhere, such as another tab, applied to what it tracks. */
+export const applyChangeToSnapshot = (snapshot: EditSnapshot, change: SettingsChange): EditSnapshot => {
+  const { persistentItems, laborRoles, savedQuotes } = applySettingsChange({
+    ...DEFAULT_SETTINGS,
+    persistentItems: snapshot.persistentItems,
+    laborRoles: snapshot.laborRoles,
+    savedQuotes: snapshot.savedQuotes,
+  }, change);
+  return { ...snapshot, persistentItems, laborRoles, savedQuotes };
+};
+
+/**
+ * Takes in changes that were not edits made here: `present` becomes the current
+ * state and every past and future step gets the changes too, so undo and redo
+ * never take them back.
+ */
+export const rebaseHistory = (history: UndoHistory, present: EditSnapshot, changes: SettingsChange[]): UndoHistory => {
+  const rebase = (snapshot: EditSnapshot) => changes.reduce(applyChangeToSnapshot, snapshot);
+  return {
+    past: history.past.map(rebase),
+    present,
+    future: history.future.map(rebase),
+    lastTarget: null,
+  };
+};
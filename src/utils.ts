@@ -1,31 +1,524 @@
-import type { PersistentItem, QuoteItem } from './types';
+import type {
+  Customer,
+  Discount,
+  JobCosts,
+  LaborLine,
+  LaborRates,
+  LaborRole,
+  LineSnapshot,
+  MarkupPolicy,
+  MarkupSource,
+  PartSnapshot,
+  PersistentItem,
+  PricingProfile,
+  QuoteItem,
+  QuoteOverrides,
+  QuoteStatus,
+  RoundingSettings,
+  SavedQuote,
+  SavedQuoteItem,
+  TaxLine,
+  TaxSettings,
+} from './types';
+import { DEFAULT_ROUNDING } from './types';
+import { roundMoney, roundPriceUp, sumMoney } from './money';
 
-export const calculateLaborCost = (wages: number[], laborHours: number) => {
-  if (wages.length === 0 || laborHours === 0) return 0;
-  return wages.reduce((total, wage) => total + (wage * (laborHours / wages.length)), 0);
+export const getBillRate = (role: LaborRole, targetHourly: number) => {
+  return role.billRate ?? targetHourly;
 };
 
-export const calculateLaborPrice = (laborHours: number, targetHourly: number) => {
-  return laborHours * targetHourly;
+export interface Pricing {
+  /** Null for the standard pricing in settings. */
+  profile: PricingProfile | null;
+  targetHourly: number;
+  globalMarkup: number;
+  laborRoles: LaborRole[];
+}
+
+/** The rates a quote is priced with under a profile; an unknown or null id gives the standard rates. */
+export const resolvePricing = (
+  settings: { targetHourly: number; globalMarkup: number; laborRoles: LaborRole[]; pricingProfiles: PricingProfile[] },
+  profileId: string | null
+): Pricing => {
+  const profile = settings.pricingProfiles.find(p => p.id === profileId);
+  if (!profile) {
+    return { profile: null, targetHourly: settings.targetHourly, globalMarkup: settings.globalMarkup, laborRoles: settings.laborRoles };
+  }
+  return {
+    profile,
+    targetHourly: profile.targetHourly,
+    globalMarkup: profile.globalMarkup,
+    laborRoles: settings.laborRoles.map(role => {
+      const rate = profile.roleRates.find(r => r.roleId === role.id);
+      return rate ? { ...role, wage: rate.wage, billRate: rate.billRate } : role;
+    }),
+  };
+};
+
+/** Rounds a line amount to the cent, unless rounding is left to the totals. */
+const roundLineAmount = (amount: number, rounding: RoundingSettings) => {
+  return rounding.mode === 'line' ? roundMoney(amount) : amount;
+};
+
+/** A line's sell price after cent rounding and any per-line price rounding rule. */
+const roundLinePrice = (price: number, rounding: RoundingSettings) => {
+  const rounded = roundLineAmount(price, rounding);
+  return rounding.priceScope === 'line' ? roundPriceUp(rounded, rounding.priceRule) : rounded;
+};
+
+/** Per-line rounding adds up in whole cents so the total always matches the lines. */
+const sumLines = (amounts: number[], rounding: RoundingSettings) => {
+  return rounding.mode === 'line' ? sumMoney(amounts) : amounts.reduce((sum, amount) => sum + amount, 0);
+};
+
+export interface PricedLaborLine {
+  index: number;
+  line: LaborLine;
+  role: LaborRole;
+  cost: number;
+  price: number;
+}
+
+/** Prices every labor line against the given rates, skipping lines whose role no longer exists. */
+export const buildPricedLaborLines = (
+  laborLines: LaborLine[],
+  rates: LaborRates,
+  hourlyOverride: number | null = null,
+  rounding: RoundingSettings = DEFAULT_ROUNDING
+): PricedLaborLine[] => {
+  return laborLines.flatMap((line, index) => {
+    const role = rates.roles.find(r => r.id === line.roleId);
+    if (!role) return [];
+    return [{
+      index,
+      line,
+      role,
+      cost: roundLineAmount(line.hours * role.wage, rounding),
+      price: roundLinePrice(line.hours * (hourlyOverride ?? getBillRate(role, rates.targetHourly)), rounding),
+    }];
+  });
+};
+
+export const calculateLabor = (
+  laborLines: LaborLine[],
+  rates: LaborRates,
+  hourlyOverride: number | null = null,
+  rounding: RoundingSettings = DEFAULT_ROUNDING
+) => {
+  const lines = buildPricedLaborLines(laborLines, rates, hourlyOverride, rounding);
+  return {
+    lines,
+    hours: lines.reduce((sum, line) => sum + line.line.hours, 0),
+    cost: sumLines(lines.map(line => line.cost), rounding),
+    price: sumLines(lines.map(line => line.price), rounding),
+  };
+};
+
+export type LaborBreakdown = ReturnType<typeof calculateLabor>;
+
+const sameCategory = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** An item's markup and the rule it came from: custom markup, then category, then cost bracket, then global. */
+export const getItemMarkup = (item: PersistentItem, policy: MarkupPolicy): { markup: number; source: MarkupSource } => {
+  if (item.useCustomMarkup) return { markup: item.customMarkup, source: { type: 'item' } };
+  const category = item.category.trim() && policy.rules.categories.find(rule => sameCategory(rule.category, item.category));
+  if (category) return { markup: category.markup, source: { type: 'category', category: category.category } };
+  const bracket = policy.rules.brackets.find(b => item.cost >= b.min && (b.max === null || item.cost < b.max));
+  if (bracket) return { markup: bracket.markup, source: { type: 'bracket', min: bracket.min, max: bracket.max } };
+  return { markup: policy.globalMarkup, source: { type: 'global' } };
+};
+
+export const describeCostRange = (min: number, max: number | null, formatMoney: (amount: number) => string) => {
+  if (max === null) return `${formatMoney(min)} and over`;
+  return min <= 0 ? `under ${formatMoney(max)}` : `${formatMoney(min)} to ${formatMoney(max)}`;
+};
+
+export const describeMarkupSource = (source: MarkupSource, formatMoney: (amount: number) => string) => {
+  switch (source.type) {
+    case 'item': return 'item markup';
+    case 'category': return `${source.category} markup`;
+    case 'bracket': return `cost ${describeCostRange(source.min, source.max, formatMoney)}`;
+    case 'global': return 'global markup';
+  }
+};
+
+/** Picker search: matches on name, SKU or category. */
+export const matchesItem = (item: PersistentItem, search: string) => {
+  const needle = search.trim().toLowerCase();
+  return [item.name, item.sku, item.category].some(field => field.toLowerCase().includes(needle));
+};
+
+export const listCategories = (items: PersistentItem[]) => {
+  return [...new Set(items.map(item => item.category.trim()).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+};
+
+/** Items grouped by category in alphabetical order, uncategorized last. */
+export const groupItemsByCategory = (items: PersistentItem[]) => {
+  const groups = listCategories(items).map(category => ({
+    category,
+    items: items.filter(item => item.category.trim() === category),
+  }));
+  const uncategorized = items.filter(item => !item.category.trim());
+  return uncategorized.length > 0 ? [...groups, { category: '', items: uncategorized }] : groups;
+};
+
+export const isAssembly = (item: PersistentItem) => item.parts.length > 0 || item.labor.length > 0;
+
+/**
+ * Freezes the current library pricing of an item. Assemblies carry a snapshot
+ * of every part; their own cost, markup and taxable flag are the rolled-up
+ * values and are only used for display.
+ */
+export const snapshotFromLibrary = (
+  item: PersistentItem,
+  markupPolicy: MarkupPolicy,
+  persistentItems: PersistentItem[]
+): LineSnapshot => {
+  const { markup, source } = getItemMarkup(item, markupPolicy);
+  const pricing: LineSnapshot = {
+    name: item.name,
+    unit: item.unit,
+    unitCost: item.cost,
+    markup,
+    taxable: item.taxable,
+  };
+  if (!isAssembly(item)) return { ...pricing, markupSource: source };
+
+  // Parts must be plain items; a part that was deleted or turned into an assembly is left out
+  const parts: PartSnapshot[] = item.parts.flatMap(part => {
+    const pItem = persistentItems.find(i => i.id === part.itemId);
+    if (!pItem || isAssembly(pItem)) return [];
+    return [{ itemId: part.itemId, quantity: part.quantity, snapshot: snapshotFromLibrary(pItem, markupPolicy, []) }];
+  });
+  const rolledUp = calculateLine({ ...pricing, parts }, 1);
+  return {
+    ...pricing,
+    unitCost: rolledUp.cost,
+    markup: rolledUp.cost > 0 ? Math.round((rolledUp.price / rolledUp.cost - 1) * 10000) / 100 : 0,
+    taxable: rolledUp.taxablePrice > 0,
+    parts,
+    labor: item.labor.map(line => ({ ...line })),
+  };
+};
+
+/**
+ * Returns the pricing a quote line should use: its own snapshot if it has one,
+ * otherwise the current library entry. Null when neither is available.
+ */
+export const resolveLinePricing = (
+  qItem: QuoteItem,
+  persistentItems: PersistentItem[],
+  markupPolicy: MarkupPolicy
+): LineSnapshot | null => {
+  if (qItem.snapshot) return qItem.snapshot;
+  const pItem = persistentItems.find(i => i.id === qItem.itemId);
+  return pItem ? snapshotFromLibrary(pItem, markupPolicy, persistentItems) : null;
+};
+
+export const formatQuantity = (quantity: number, unit: string) => `${quantity} ${unit}`;
+
+/** Cost and sell price of a line. Assemblies are the sum of their parts. */
+export const calculateLine = (pricing: LineSnapshot, quantity: number): { cost: number; price: number; taxablePrice: number } => {
+  if (pricing.parts) {
+    return pricing.parts.reduce((sum, part) => {
+      const line = calculateLine(part.snapshot, part.quantity * quantity);
+      return {
+        cost: sum.cost + line.cost,
+        price: sum.price + line.price,
+        taxablePrice: sum.taxablePrice + line.taxablePrice,
+      };
+    }, { cost: 0, price: 0, taxablePrice: 0 });
+  }
+  const cost = pricing.unitCost * quantity;
+  const price = cost * (1 + pricing.markup / 100);
+  return { cost, price, taxablePrice: pricing.taxable ? price : 0 };
+};
+
+/** Replaces the markup of a line, and of every part when the line is an assembly. */
+export const withMarkup = (pricing: LineSnapshot, markup: number): LineSnapshot => ({
+  ...pricing,
+  markup,
+  ...(pricing.parts && {
+    parts: pricing.parts.map(part => ({ ...part, snapshot: withMarkup(part.snapshot, markup) })),
+  }),
+});
+
+/** Dollar amount a discount takes off the given price, never more than the price itself. */
+export const calculateDiscount = (discount: Discount | undefined | null, price: number) => {
+  if (!discount || price <= 0) return 0;
+  const amount = discount.type === 'percent' ? price * (discount.value / 100) : discount.value;
+  return Math.min(Math.max(amount, 0), price);
+};
+
+export const formatDiscount = (discount: Discount, formatMoney: (amount: number) => string) => {
+  return discount.type === 'percent' ? `${discount.value}%` : formatMoney(discount.value);
+};
+
+export interface PricedLine {
+  index: number;
+  item: QuoteItem;
+  pricing: LineSnapshot;
+  cost: number;
+  /** Price before the line discount. */
+  listPrice: number;
+  discount: number;
+  /** Price after the line discount. */
+  price: number;
+  /** Part of `price` that is taxable; less than the full price for mixed assemblies. */
+  taxablePrice: number;
+}
+
+/** Resolves and prices every line of a quote, skipping lines that cannot be priced. */
+export const buildPricedLines = (
+  quoteItems: QuoteItem[],
+  persistentItems: PersistentItem[],
+  markupPolicy: MarkupPolicy,
+  markupOverride: number | null = null,
+  rounding: RoundingSettings = DEFAULT_ROUNDING
+): PricedLine[] => {
+  return quoteItems.flatMap((item, index) => {
+    const resolved = resolveLinePricing(item, persistentItems, markupPolicy);
+    if (!resolved) return [];
+    const pricing = markupOverride === null ? resolved : withMarkup(resolved, markupOverride);
+    const line = calculateLine(pricing, item.quantity);
+    // Price rounding applies to the list price, so a line discount still shows as given
+    const listPrice = roundLinePrice(line.price, rounding);
+    const discount = roundLineAmount(calculateDiscount(item.discount, listPrice), rounding);
+    const price = roundLineAmount(listPrice - discount, rounding);
+    const taxableShare = line.price > 0 ? line.taxablePrice / line.price : 0;
+    return [{
+      index,
+      item,
+      pricing,
+      cost: roundLineAmount(line.cost, rounding),
+      listPrice,
+      discount,
+      price,
+      taxablePrice: roundLineAmount(price * taxableShare, rounding),
+    }];
+  });
 };
 
 export const calculateMaterials = (
   quoteItems: QuoteItem[],
   persistentItems: PersistentItem[],
-  globalMarkup: number
+  markupPolicy: MarkupPolicy,
+  markupOverride: number | null = null,
+  rounding: RoundingSettings = DEFAULT_ROUNDING
 ) => {
-  let cost = 0;
-  let price = 0;
-  quoteItems.forEach(qItem => {
+  const lines = buildPricedLines(quoteItems, persistentItems, markupPolicy, markupOverride, rounding);
+  return {
+    lines,
+    cost: sumLines(lines.map(line => line.cost), rounding),
+    price: sumLines(lines.map(line => line.price), rounding),
+    discount: sumLines(lines.map(line => line.discount), rounding),
+  };
+};
+
+/**
+ * Applies every configured rate to the taxable sell price: taxable material lines,
+ * plus labor when the settings say labor is taxed. A quote-level reduction (discount
+ * net of any adjustment and charges) scales the taxable and non-taxable parts in proportion.
+ * Each rate is charged in whole cents.
+ */
+export const calculateTax = (lines: PricedLine[], laborPrice: number, tax: TaxSettings, quoteReduction = 0) => {
+  const taxableMaterials = lines.reduce((sum, line) => sum + line.taxablePrice, 0);
+  const preDiscountTotal = lines.reduce((sum, line) => sum + line.price, 0) + laborPrice;
+  const discountRatio = preDiscountTotal > 0 ? Math.max(1 - quoteReduction / preDiscountTotal, 0) : 1;
+  const taxableAmount = (taxableMaterials + (tax.taxLabor ? laborPrice : 0)) * discountRatio;
+  const taxLines: TaxLine[] = tax.rates.map(rate => ({
+    name: rate.name,
+    rate: rate.rate,
+    amount: roundMoney(taxableAmount * (rate.rate / 100)),
+  }));
+  const total = sumMoney(taxLines.map(line => line.amount));
+  return { taxableAmount, lines: taxLines, total };
+};
+
+export type TaxBreakdown = ReturnType<typeof calculateTax>;
+
+export const hasOverrides = (overrides: QuoteOverrides) => {
+  return overrides.markup !== null || overrides.hourlyRate !== null || overrides.adjustment !== 0;
+};
+
+/**
+ * Labor hours that assemblies on the quote bring with them, one line per
+ * assembly labor line scaled by the quoted quantity. Priced after the quote's
+ * own labor lines, so their indexes in the labor breakdown come last.
+ */
+export const scaleAssemblyLabor = (lines: PricedLine[]): LaborLine[] => {
+  return lines.flatMap(line => (line.pricing.labor ?? []).map(labor => ({
+    roleId: labor.roleId,
+    hours: labor.hours * line.item.quantity,
+  })));
+};
+
+export interface QuoteInput {
+  quoteItems: QuoteItem[];
+  persistentItems: PersistentItem[];
+  markupPolicy: MarkupPolicy;
+  laborLines: LaborLine[];
+  laborRates: LaborRates;
+  quoteDiscount: Discount | null;
+  tax: TaxSettings;
+  overrides: QuoteOverrides;
+  rounding: RoundingSettings;
+  jobCosts: JobCosts;
+}
+
+/**
+ * Prices a whole quote: materials, labor, discounts, adjustment, trip charge,
+ * price rounding, the minimum job price and tax. Cost includes payroll burden
+ * and overhead, so profit is net. Every total is in whole cents whatever the rounding mode.
+ */
+export const calculateQuoteTotals = (input: QuoteInput) => {
+  const { overrides, rounding, jobCosts } = input;
+  const materials = calculateMaterials(input.quoteItems, input.persistentItems, input.markupPolicy, overrides.markup, rounding);
+  const { lines } = materials;
+  const assemblyLabor = scaleAssemblyLabor(lines);
+  const labor = calculateLabor([...input.laborLines, ...assemblyLabor], input.laborRates, overrides.hourlyRate, rounding);
+
+  // Quote-level discount comes off the total after line discounts; the adjustment after that
+  const quoteDiscount = roundMoney(calculateDiscount(input.quoteDiscount, labor.price + materials.price));
+  // An empty quote gets no trip charge or minimum
+  const hasWork = labor.price + materials.price > 0;
+  const tripCharge = hasWork ? jobCosts.tripCharge : 0;
+  const unrounded = roundMoney(labor.price + materials.price - quoteDiscount + overrides.adjustment + tripCharge);
+  // Rounding the total up happens before tax, so the extra is taxed like the rest of the quote
+  const priceRounding = rounding.priceScope === 'total'
+    ? roundMoney(roundPriceUp(unrounded, rounding.priceRule) - unrounded)
+    : 0;
+  const rounded = sumMoney([unrounded, priceRounding]);
+  const minimumCharge = hasWork ? roundMoney(Math.max(jobCosts.minimumPrice - rounded, 0)) : 0;
+  const subtotal = sumMoney([rounded, minimumCharge]);
+
+  const burden = roundMoney(labor.cost * (jobCosts.burdenPercent / 100));
+  const overhead = roundMoney(jobCosts.overheadBasis === 'hour'
+    ? labor.hours * jobCosts.overheadRate
+    : subtotal * (jobCosts.overheadRate / 100));
+  const cost = roundMoney(labor.cost + materials.cost + burden + overhead);
+  const profit = roundMoney(subtotal - cost);
+  const margin = subtotal > 0 ? (profit / subtotal) * 100 : 0;
+
+  // Tax is added on top of the pre-tax subtotal; profit and margin ignore it
+  const tax = calculateTax(lines, labor.price, input.tax, quoteDiscount - overrides.adjustment - tripCharge - priceRounding - minimumCharge);
+
+  return {
+    lines,
+    materials,
+    labor,
+    assemblyLabor,
+    quoteDiscount,
+    discountTotal: materials.discount + quoteDiscount,
+    adjustment: overrides.adjustment,
+    tripCharge,
+    priceRounding,
+    minimumCharge,
+    subtotal,
+    burden,
+    overhead,
+    cost,
+    profit,
+    margin,
+    tax,
+    total: sumMoney([subtotal, tax.total]),
+  };
+};
+
+export type QuoteTotals = ReturnType<typeof calculateQuoteTotals>;
+
+/** Freezes every line of the working quote so it can be stored in history. */
+export const snapshotQuoteItems = (
+  quoteItems: QuoteItem[],
+  persistentItems: PersistentItem[],
+  markupPolicy: MarkupPolicy
+): SavedQuoteItem[] => {
+  return quoteItems.flatMap(qItem => {
+    const pricing = resolveLinePricing(qItem, persistentItems, markupPolicy);
+    if (!pricing) return [];
+    return [{
+      itemId: qItem.itemId,
+      quantity: qItem.quantity,
+      ...(qItem.discount && { discount: { ...qItem.discount } }),
+      snapshot: { ...pricing },
+    }];
+  });
+};
+
+export interface RepriceLine {
+  index: number;
+  name: string;
+  quantity: number;
+  oldPricing: LineSnapshot;
+  /** Null when the item no longer exists in the library; the line then keeps its snapshot. */
+  newPricing: LineSnapshot | null;
+}
+
+/** Compares every snapshot-priced line against what the current library would charge for it. */
+export const buildRepriceLines = (
+  quoteItems: QuoteItem[],
+  persistentItems: PersistentItem[],
+  markupPolicy: MarkupPolicy
+): RepriceLine[] => {
+  return quoteItems.flatMap((qItem, index) => {
+    if (!qItem.snapshot) return [];
     const pItem = persistentItems.find(i => i.id === qItem.itemId);
-    if (!pItem) return;
-    const itemCost = pItem.cost * qItem.quantity;
-    const markup = pItem.useCustomMarkup ? pItem.customMarkup : globalMarkup;
-    const itemPrice = itemCost * (1 + markup / 100);
-    cost += itemCost;
-    price += itemPrice;
+    return [{
+      index,
+      name: qItem.snapshot.name,
+      quantity: qItem.quantity,
+      oldPricing: qItem.snapshot,
+      newPricing: pItem ? snapshotFromLibrary(pItem, markupPolicy, persistentItems) : null,
+    }];
   });
-  return { cost, price };
+};
+
+export const summarizeCustomerQuotes = (quotes: SavedQuote[], customerId: string) => {
+  const customerQuotes = quotes.filter(q => q.customerId === customerId);
+  return {
+    quotes: customerQuotes,
+    quoted: customerQuotes.reduce((sum, q) => sum + q.totalPrice, 0),
+    accepted: customerQuotes.filter(q => q.status === 'accepted').reduce((sum, q) => sum + q.totalPrice, 0),
+  };
+};
+
+export const matchesCustomer = (customer: Customer, search: string) => {
+  const needle = search.trim().toLowerCase();
+  return [customer.name, customer.phone, customer.email].some(field => field.toLowerCase().includes(needle));
+};
+
+/** Today's local date as YYYY-MM-DD, the format date inputs use. */
+export const todayIso = (now = new Date()) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+export const addDaysIso = (days: number, from = new Date()) => {
+  const date = new Date(from);
+  date.setDate(date.getDate() + days);
+  return todayIso(date);
+};
+
+/** Follow-ups only matter while the customer hasn't answered yet. */
+export const isFollowUpDue = (quote: SavedQuote, today = todayIso()) => {
+  return !!quote.followUpOn
+    && quote.followUpOn <= today
+    && (quote.status === 'draft' || quote.status === 'sent');
+};
+
+export const isPastExpiry = (quote: SavedQuote, today = todayIso()) => {
+  return !!quote.expiresOn
+    && quote.expiresOn < today
+    && (quote.status === 'draft' || quote.status === 'sent');
+};
+
+export const withStatus = (quote: SavedQuote, status: QuoteStatus): SavedQuote => {
+  if (quote.status === status) return quote;
+  return {
+    ...quote,
+    status,
+    statusHistory: [...quote.statusHistory, { status, at: new Date().toISOString() }],
+  };
 };
 
 export const generateId = () => {
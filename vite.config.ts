@@ -1,7 +1,41 @@
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs'
+import { join, relative, resolve, sep } from 'node:path'
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const SERVICE_WORKER = 'sw.js'
+
+// Writes the list of built files into the service worker so the whole app
+// shell is cached on install. The version hash changes whenever any of those
+// files do, which is what makes the browser offer the update.
+const precacheManifest = (): Plugin => {
+  let outDir = 'dist'
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir)
+    },
+    closeBundle() {
+      const files = readdirSync(outDir, { recursive: true, withFileTypes: true })
+        .filter(entry => entry.isFile())
+        .map(entry => relative(outDir, join(entry.parentPath, entry.name)).split(sep).join('/'))
+        .filter(file => file !== SERVICE_WORKER && !file.endsWith('.map'))
+        .sort()
+      const hash = createHash('sha256')
+      files.forEach(file => hash.update(file).update(readFileSync(join(outDir, file))))
+      const manifest = { version: hash.digest('hex').slice(0, 12), urls: files.map(file => `/${file}`) }
+
+      const workerPath = join(outDir, SERVICE_WORKER)
+      const worker = readFileSync(workerPath, 'utf8')
+      writeFileSync(workerPath, worker.replace('self.__PRECACHE_MANIFEST', JSON.stringify(manifest)))
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
 })